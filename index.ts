@@ -4,11 +4,27 @@
  * Cloud-backed team memory with auto-indexing from Gmail, GitHub, Notion, Slack, Discord.
  * Replaces OpenClaw's local-only memory with structured decision memory + graph relationships.
  *
- * Tools: momo_search, momo_store, momo_context, momo_summary
- * Hooks: auto-recall (before_agent_start), auto-capture (agent_end, debounced)
- * CLI: openclaw momo search|summary|status
+ * Tools: momo_search, momo_get, momo_related, momo_cite, momo_store, momo_context, momo_summary,
+ *        momo_update_decision, momo_reverse_decision, momo_supersede_decision,
+ *        momo_confirm_action, momo_tool_result_page, momo_capture, momo_integration_tool
+ * Hooks: session tracking + auto-recall (before_agent_start), auto-capture (agent_end, debounced)
+ * CLI: openclaw momo search|show|graph|summary|export|import|sync|status|outbox|decision|vault-rekey
  */
 
+import { once } from "node:events";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+  scrypt,
+} from "node:crypto";
+
 // Types — OpenClaw plugin SDK types (referenced, not imported at build time)
 interface OpenClawPluginApi {
   id: string;
@@ -21,6 +37,12 @@ interface OpenClawPluginApi {
   on: (hookName: string, handler: any, opts?: any) => void;
 }
 
+// Passed to tool factories (`registerTool((ctx) => tool | null, { name })`)
+interface OpenClawPluginToolContext {
+  agentId?: string;
+  sessionKey?: string;
+}
+
 // =============================================================================
 // CONFIG
 // =============================================================================
@@ -30,6 +52,70 @@ interface MomoConfig {
   apiUrl: string;
   autoCapture: boolean;
   autoRecall: boolean;
+  dataDir: string;
+  requestTimeoutMs: number;
+  recallTimeoutMs: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldownMs: number;
+  outboxDrainIntervalMs: number;
+  vaultPassphrase: string;
+  vaultPreviousPassphrases: string[];
+  vaultExtraction: boolean;
+  redaction: boolean;
+  redactionDetectors: string[] | null;
+  redactionRules: RedactionRuleConfig[];
+  redactionAllowlist: string[];
+  confirmWriteTools: boolean;
+  writeToolsDryRun: boolean;
+  toolPolicy: ToolPolicy;
+  capabilitiesRefreshMs: number;
+  toolOutputBudget: number;
+  toolOutputBudgets: Record<string, number>;
+  memorySyncFile: string;
+  memorySyncIntervalMs: number;
+  searchCache: boolean;
+  searchCacheMaxEntries: number;
+  searchCacheRetentionDays: number;
+  recallWindowTurns: number;
+  recallMinScore: number;
+  recallRepeats: "skip" | "reference";
+  recallMode: "auto" | "always" | "explicit";
+  recallLanguages: string[];
+  recallCasualPatterns: string[];
+  recallKeywords: string[];
+  recallTriggers: string[];
+  recallMinChars: number;
+  recallShortChars: number;
+  recallMaxTokens: number;
+  captureToolCalls: boolean;
+  captureToolDeny: string[];
+  captureToolResultChars: number;
+  captureToolResultLimits: Record<string, number>;
+  captureChannelAllow: string[];
+  captureChannelDeny: string[];
+}
+
+interface ToolPolicyRules {
+  /** Tool name globs — when set, only matching tools are exposed */
+  allow?: string[];
+  /** Tool name globs — always hidden (deny wins over allow) */
+  deny?: string[];
+  /** Same, but matched against the integration name (gmail, slack, ...) */
+  integrations?: { allow?: string[]; deny?: string[] };
+}
+
+interface ToolPolicy extends ToolPolicyRules {
+  /** Per-agent overrides, keyed by OpenClaw agent ID; fields replace the global ones */
+  agents?: Record<string, ToolPolicyRules>;
+}
+
+interface RedactionRuleConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
 }
 
 function resolveConfig(pluginConfig: Record<string, unknown> = {}): MomoConfig {
@@ -38,9 +124,95 @@ function resolveConfig(pluginConfig: Record<string, unknown> = {}): MomoConfig {
     apiUrl: (pluginConfig.apiUrl as string) || process.env.MOMO_API_URL || "https://app.usemomo.com",
     autoCapture: pluginConfig.autoCapture !== false, // default true
     autoRecall: pluginConfig.autoRecall !== false, // default true
+    dataDir:
+      (pluginConfig.dataDir as string) ||
+      process.env.MOMO_DATA_DIR ||
+      path.join(os.homedir(), ".openclaw", "momo"),
+    requestTimeoutMs: numberOption(pluginConfig.requestTimeoutMs, 15_000),
+    recallTimeoutMs: numberOption(pluginConfig.recallTimeoutMs, 3_000),
+    maxRetries: numberOption(pluginConfig.maxRetries, 3),
+    retryBaseDelayMs: numberOption(pluginConfig.retryBaseDelayMs, 500),
+    retryMaxDelayMs: numberOption(pluginConfig.retryMaxDelayMs, 10_000),
+    circuitBreakerThreshold: numberOption(pluginConfig.circuitBreakerThreshold, 5),
+    circuitBreakerCooldownMs: numberOption(pluginConfig.circuitBreakerCooldownMs, 60_000),
+    outboxDrainIntervalMs: numberOption(pluginConfig.outboxDrainIntervalMs, 30_000),
+    vaultPassphrase:
+      (pluginConfig.vaultPassphrase as string) || process.env.MOMO_VAULT_PASSPHRASE || "",
+    vaultPreviousPassphrases: Array.isArray(pluginConfig.vaultPreviousPassphrases)
+      ? (pluginConfig.vaultPreviousPassphrases as unknown[]).filter(
+          (p): p is string => typeof p === "string" && p.length > 0
+        )
+      : [],
+    vaultExtraction: pluginConfig.vaultExtraction === true, // default false
+    redaction: pluginConfig.redaction !== false, // default true
+    redactionDetectors: Array.isArray(pluginConfig.redactionDetectors)
+      ? (pluginConfig.redactionDetectors as string[])
+      : null, // null = all built-in detectors
+    redactionRules: Array.isArray(pluginConfig.redactionRules)
+      ? (pluginConfig.redactionRules as RedactionRuleConfig[])
+      : [],
+    redactionAllowlist: Array.isArray(pluginConfig.redactionAllowlist)
+      ? (pluginConfig.redactionAllowlist as string[])
+      : [],
+    confirmWriteTools: pluginConfig.confirmWriteTools !== false, // default true
+    writeToolsDryRun: pluginConfig.writeToolsDryRun === true, // default false
+    toolPolicy: (pluginConfig.toolPolicy as ToolPolicy) || {},
+    capabilitiesRefreshMs: numberOption(pluginConfig.capabilitiesRefreshMs, 5 * 60_000),
+    toolOutputBudget: numberOption(pluginConfig.toolOutputBudget, 12_000),
+    toolOutputBudgets: (pluginConfig.toolOutputBudgets as Record<string, number>) || {},
+    memorySyncFile: pluginConfig.memorySyncFile
+      ? path.resolve(String(pluginConfig.memorySyncFile).replace(/^~(?=$|[\\/])/, os.homedir()))
+      : "", // "" = sync off
+    memorySyncIntervalMs: numberOption(pluginConfig.memorySyncIntervalMs, 60_000),
+    searchCache: pluginConfig.searchCache !== false, // default true
+    searchCacheMaxEntries: numberOption(pluginConfig.searchCacheMaxEntries, 2_000),
+    searchCacheRetentionDays: numberOption(pluginConfig.searchCacheRetentionDays, 30),
+    recallWindowTurns: numberOption(pluginConfig.recallWindowTurns, 3),
+    recallMinScore: numberOption(pluginConfig.recallMinScore, 0.3),
+    recallRepeats: pluginConfig.recallRepeats === "skip" ? "skip" : "reference",
+    recallMode:
+      pluginConfig.recallMode === "always" || pluginConfig.recallMode === "explicit"
+        ? pluginConfig.recallMode
+        : "auto",
+    recallLanguages: stringListOption(pluginConfig.recallLanguages) || ["en"],
+    recallCasualPatterns: stringListOption(pluginConfig.recallCasualPatterns) || [],
+    recallKeywords: stringListOption(pluginConfig.recallKeywords) || [],
+    recallTriggers: stringListOption(pluginConfig.recallTriggers) || [],
+    recallMinChars: numberOption(pluginConfig.recallMinChars, 30),
+    recallShortChars: numberOption(pluginConfig.recallShortChars, 40),
+    recallMaxTokens: numberOption(pluginConfig.recallMaxTokens, 2_000),
+    captureToolCalls: pluginConfig.captureToolCalls !== false, // default true
+    captureToolDeny: stringListOption(pluginConfig.captureToolDeny) || [],
+    captureToolResultChars: numberOption(pluginConfig.captureToolResultChars, 2_000),
+    captureToolResultLimits: numberMapOption(pluginConfig.captureToolResultLimits),
+    captureChannelAllow: stringListOption(pluginConfig.captureChannelAllow) || [], // [] = every channel
+    captureChannelDeny: stringListOption(pluginConfig.captureChannelDeny) || [],
   };
 }
 
+function stringListOption(value: unknown): string[] | null {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && v.length > 0)
+    : null;
+}
+
+function numberOption(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+// Invalid entries are dropped, so the key falls back to its default
+function numberMapOption(value: unknown): Record<string, number> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const out: Record<string, number> = {};
+  for (const [key, v] of Object.entries(value)) {
+    const n = numberOption(v, -1);
+    if (n >= 0) out[key] = n;
+  }
+  return out;
+}
+
 // =============================================================================
 // HTTP HELPERS
 // =============================================================================
@@ -52,170 +224,4561 @@ function makeHeaders(config: MomoConfig) {
   };
 }
 
+class MomoApiError extends Error {
+  constructor(
+    public status: number,
+    body: string
+  ) {
+    super(`Momo API error (${status}): ${body}`);
+    this.name = "MomoApiError";
+  }
+}
+
+class MomoCircuitOpenError extends Error {
+  constructor(retryInMs: number) {
+    super(
+      `Momo API unavailable (circuit open, retrying in ${Math.ceil(retryInMs / 1000)}s)`
+    );
+    this.name = "MomoCircuitOpenError";
+  }
+}
+
+interface MomoFetchOptions extends RequestInit {
+  /** Per-attempt timeout (defaults to config.requestTimeoutMs) */
+  timeoutMs?: number;
+  /**
+   * Retry budget for this call. Defaults to config.maxRetries, except for
+   * POSTs without an Idempotency-Key, which aren't retried.
+   */
+  retries?: number;
+  /** Return vault-sealed values as they are instead of opening them */
+  sealed?: boolean;
+}
+
+// Circuit breaker — shared by every call so a dead server is only probed
+// once per cooldown instead of on every agent turn.
+const circuit = {
+  consecutiveFailures: 0,
+  openedAt: 0,
+  open: false,
+};
+
+/**
+ * True while the breaker is open and the cooldown hasn't elapsed.
+ * Once it has, the next call is let through as a half-open probe.
+ */
+function isCircuitOpen(config: MomoConfig): boolean {
+  return circuit.open && Date.now() - circuit.openedAt < config.circuitBreakerCooldownMs;
+}
+
+function recordSuccess() {
+  circuit.consecutiveFailures = 0;
+  circuit.open = false;
+}
+
+function recordFailure(config: MomoConfig) {
+  circuit.consecutiveFailures++;
+  if (circuit.open || circuit.consecutiveFailures >= config.circuitBreakerThreshold) {
+    // Trip (or re-trip after a failed half-open probe)
+    circuit.open = true;
+    circuit.openedAt = Date.now();
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * True if the call might succeed later (network down, timeout, circuit open, 429/5xx).
+ * 4xx responses are permanent — retrying the same request won't help.
+ */
+function isTransientError(err: unknown): boolean {
+  if (err instanceof MomoApiError) return isRetryableStatus(err.status);
+  // A wrong passphrase or tampered value won't fix itself on retry
+  if (err instanceof MomoVaultError) return false;
+  return true;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+/**
+ * Full-jitter exponential backoff: random delay in [0, min(max, base * 2^attempt)].
+ */
+function backoffDelay(config: MomoConfig, attempt: number): number {
+  const ceiling = Math.min(config.retryMaxDelayMs, config.retryBaseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a request can safely be sent again. A POST that timed out may
+ * already be committed, so replaying it would create a duplicate unless the
+ * server can recognize it by its Idempotency-Key. PATCH only sets fields,
+ * so a replay lands on the same state.
+ */
+function isRetrySafe(init: RequestInit): boolean {
+  if ((init.method || "GET").toUpperCase() !== "POST") return true;
+  return new Headers(init.headers).has("Idempotency-Key");
+}
+
 async function momoFetch(
   config: MomoConfig,
   path: string,
-  options: RequestInit = {}
+  options: MomoFetchOptions = {}
 ): Promise<any> {
+  const { timeoutMs = config.requestTimeoutMs, retries: retryOption, sealed = false, ...init } = options;
+  const retries = retryOption ?? (isRetrySafe(init) ? config.maxRetries : 0);
+
+  if (isCircuitOpen(config)) {
+    throw new MomoCircuitOpenError(
+      config.circuitBreakerCooldownMs - (Date.now() - circuit.openedAt)
+    );
+  }
+
   const url = `${config.apiUrl}${path}`;
-  const res = await fetch(url, {
-    ...options,
-    headers: { ...makeHeaders(config), ...(options.headers || {}) },
-  });
 
-  if (!res.ok) {
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout]) : timeout;
+
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        ...init,
+        signal,
+        headers: { ...makeHeaders(config), ...(init.headers || {}) },
+      });
+    } catch (err: any) {
+      // Caller aborted — not a server problem, don't retry or count it
+      if (init.signal?.aborted) throw err;
+
+      recordFailure(config);
+      if (attempt >= retries || isCircuitOpen(config)) {
+        if (timeout.aborted) {
+          throw new Error(`Momo API request timed out after ${timeoutMs}ms`);
+        }
+        throw err;
+      }
+      await sleep(backoffDelay(config, attempt));
+      continue;
+    }
+
+    if (res.ok) {
+      recordSuccess();
+      const data = await res.json();
+      return sealed ? data : openVault(config, data);
+    }
+
     const text = await res.text().catch(() => "Unknown error");
-    throw new Error(`Momo API error (${res.status}): ${text}`);
-  }
 
-  return res.json();
+    if (!isRetryableStatus(res.status)) {
+      // 4xx means the server is up and answering — not a breaker failure
+      recordSuccess();
+      throw new MomoApiError(res.status, text);
+    }
+
+    // 429 means the server is alive, just busy — back off without tripping the breaker
+    if (res.status !== 429) recordFailure(config);
+
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    const exhausted = attempt >= retries || isCircuitOpen(config);
+    if (exhausted || (retryAfter !== null && retryAfter > config.retryMaxDelayMs)) {
+      throw new MomoApiError(res.status, text);
+    }
+    await sleep(retryAfter ?? backoffDelay(config, attempt));
+  }
 }
 
 // =============================================================================
-// MESSAGE BUFFER (for debounced auto-capture)
+// VAULT (client-side AES-256-GCM encryption of sensitive decision fields)
 // =============================================================================
 
-interface BufferedMessage {
-  role: "user" | "assistant";
-  content: string;
-  timestamp: string;
+// Sealed values are self-describing strings:
+//   momo:v1:<keyId>.<salt>.<iv>.<tag>.<ciphertext>   (base64url segments)
+// The salt travels with the value, so any teammate with the passphrase can
+// open it. Responses are opened transparently in momoFetch.
+
+const VAULT_PREFIX = "momo:v1:";
+const VAULT_TOKEN = /momo:v1:([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]*)/g;
+
+/** Top-level decision fields sealed before leaving the machine */
+const SEALED_FIELDS = ["title", "fullContext", "rationale"];
+/** Array fields whose string items (or name/email/role props) are sealed */
+const SEALED_LIST_FIELDS = ["involvedPersons", "relatedEntities", "entities"];
+const SEALED_PERSON_PROPS = ["name", "email", "role"];
+
+class MomoVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MomoVaultError";
+  }
 }
 
-const messageBuffers = new Map<string, BufferedMessage[]>();
-const silenceTimers = new Map<string, ReturnType<typeof setTimeout>>();
+interface VaultKey {
+  key: Buffer;
+  keyId: string;
+}
 
-const SILENCE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-const MAX_BUFFER_SIZE = 20; // Force extract at 20 messages
+const VAULT_SCRYPT = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
 
-function getChannelKey(event: any): string {
-  return event?.session?.channelId || event?.session?.id || "default";
+// Keyed by salt + passphrase hash. Promises, so concurrent requests for the
+// same salt share one derivation.
+const vaultKeys = new Map<string, Promise<VaultKey>>();
+let vaultSalt: Buffer | null = null;
+
+function isVaultEnabled(config: MomoConfig): boolean {
+  return config.vaultPassphrase.length > 0;
 }
 
-async function flushBuffer(
-  channelKey: string,
-  config: MomoConfig,
-  logger: OpenClawPluginApi["logger"]
-) {
-  const messages = messageBuffers.get(channelKey);
-  if (!messages || messages.length < 4) {
-    // Need at least 2 exchanges
-    messageBuffers.delete(channelKey);
-    return;
+/**
+ * Derive (and cache) the AES key for a passphrase + salt.
+ * scrypt is deliberately slow, so each pair is derived once per process,
+ * off the event loop.
+ */
+function deriveVaultKey(passphrase: string, salt: Buffer): Promise<VaultKey> {
+  const cacheKey = `${salt.toString("base64url")}:${createHash("sha256").update(passphrase).digest("hex")}`;
+  let entry = vaultKeys.get(cacheKey);
+  if (!entry) {
+    entry = new Promise<Buffer>((resolve, reject) =>
+      scrypt(passphrase, salt, 32, VAULT_SCRYPT, (err, key) => (err ? reject(err) : resolve(key)))
+    ).then((key) => ({
+      key,
+      keyId: createHmac("sha256", key).update("momo-vault-key-id").digest("base64url").slice(0, 8),
+    }));
+    entry.catch(() => vaultKeys.delete(cacheKey));
+    vaultKeys.set(cacheKey, entry);
+  }
+  return entry;
+}
+
+/** The key new values are sealed with: the current passphrase and this process's salt */
+function currentVaultKey(config: MomoConfig): Promise<VaultKey> {
+  if (!vaultSalt) vaultSalt = randomBytes(16);
+  return deriveVaultKey(config.vaultPassphrase, vaultSalt);
+}
+
+/**
+ * Find the key a token was sealed with: the current passphrase first, then
+ * rotated-out ones.
+ */
+async function findVaultKey(config: MomoConfig, keyId: string, salt: string): Promise<VaultKey> {
+  if (!isVaultEnabled(config)) {
+    throw new MomoVaultError(
+      "Memory is encrypted but no vault passphrase is configured (set vaultPassphrase or MOMO_VAULT_PASSPHRASE)"
+    );
+  }
+
+  const saltBuf = Buffer.from(salt, "base64url");
+  for (const passphrase of [config.vaultPassphrase, ...config.vaultPreviousPassphrases]) {
+    const derived = await deriveVaultKey(passphrase, saltBuf);
+    if (derived.keyId === keyId) return derived;
   }
 
+  throw new MomoVaultError(
+    `Wrong vault passphrase: memory was encrypted with key ${keyId}, which doesn't match ` +
+      "vaultPassphrase or any vaultPreviousPassphrases"
+  );
+}
+
+function sealValue(vaultKey: VaultKey, salt: Buffer, plaintext: string): string {
+  if (!plaintext || plaintext.startsWith(VAULT_PREFIX)) return plaintext;
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", vaultKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return (
+    VAULT_PREFIX +
+    [vaultKey.keyId, salt, iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+      .join(".")
+  );
+}
+
+function openToken(vaultKey: VaultKey, iv: string, tag: string, ciphertext: string): string {
   try {
-    const result = await momoFetch(config, "/api/ext/extract", {
-      method: "POST",
-      body: JSON.stringify({
-        messages,
-        source: "openclaw",
-        channel: channelKey,
-      }),
-    });
+    const decipher = createDecipheriv("aes-256-gcm", vaultKey.key, Buffer.from(iv, "base64url"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new MomoVaultError("Encrypted memory failed integrity check (corrupted or tampered)");
+  }
+}
 
-    if (result.decisionsFound > 0) {
-      logger.info(
-        `[momo] Captured ${result.decisionsFound} decision(s) from conversation`
-      );
+/** Apply `fn` to every string in a JSON value */
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === "string") return fn(value);
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn));
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = mapStrings(v, fn);
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Walk an API response and open any sealed strings in it. Keys are derived
+ * up front (asynchronously), then the walk itself is synchronous.
+ *
+ * A field that can't be opened is replaced by an "[encrypted: ...]" marker,
+ * so one bad token doesn't sink the whole response. With `strict`, the first
+ * failure throws instead.
+ */
+async function openVault<T>(config: MomoConfig, value: T, { strict = false } = {}): Promise<T> {
+  // Undefined until the key is derived below
+  const keys = new Map<string, VaultKey | MomoVaultError | undefined>();
+  mapStrings(value, (text) => {
+    if (text.includes(VAULT_PREFIX)) {
+      for (const [, keyId, salt] of text.matchAll(VAULT_TOKEN)) keys.set(`${keyId}.${salt}`, undefined);
+    }
+    return text;
+  });
+  if (keys.size === 0) return value;
+
+  for (const id of keys.keys()) {
+    const [keyId, salt] = id.split(".");
+    try {
+      keys.set(id, await findVaultKey(config, keyId, salt));
+    } catch (err) {
+      if (!(err instanceof MomoVaultError)) throw err;
+      keys.set(id, err);
+    }
+  }
+
+  return mapStrings(value, (text) => {
+    if (!text.includes(VAULT_PREFIX)) return text;
+    try {
+      return text.replace(VAULT_TOKEN, (_match, keyId, salt, iv, tag, ciphertext) => {
+        const vaultKey = keys.get(`${keyId}.${salt}`)!;
+        if (vaultKey instanceof MomoVaultError) throw vaultKey;
+        return openToken(vaultKey, iv, tag, ciphertext);
+      });
+    } catch (err) {
+      if (strict || !(err instanceof MomoVaultError)) throw err;
+      return `[encrypted: ${err.message}]`;
+    }
+  }) as T;
+}
+
+/**
+ * For a decision as stored (still sealed), the plaintext of its sealed fields
+ * if any of them use a key other than the current passphrase — ready to be
+ * sealed again. Null when it's already current or not sealed at all.
+ * Throws MomoVaultError if an old field can't be opened.
+ */
+async function staleVaultFields(
+  config: MomoConfig,
+  sealedDecision: Record<string, any>
+): Promise<Record<string, any> | null> {
+  const fields = [...SEALED_FIELDS, ...SEALED_LIST_FIELDS].filter((f) => sealedDecision[f] !== undefined);
+  let stale = false;
+  for (const [, keyId, salt] of JSON.stringify(fields.map((f) => sealedDecision[f])).matchAll(VAULT_TOKEN)) {
+    const current = await deriveVaultKey(config.vaultPassphrase, Buffer.from(salt, "base64url"));
+    if (current.keyId !== keyId) {
+      stale = true;
+      break;
     }
-  } catch (err) {
-    logger.warn("[momo] Auto-capture failed:", err);
   }
+  if (!stale) return null;
+
+  const opened = await openVault(config, sealedDecision, { strict: true });
+  return Object.fromEntries(fields.map((f) => [f, opened[f]]));
+}
+
+/**
+ * Seal the sensitive fields of a decision record (no-op when the vault is off).
+ * Summaries stay plaintext so the server can still embed and search them.
+ */
+async function sealDecision(
+  config: MomoConfig,
+  decision: Record<string, any>
+): Promise<Record<string, any>> {
+  if (!isVaultEnabled(config)) return decision;
 
-  messageBuffers.delete(channelKey);
+  const vaultKey = await currentVaultKey(config);
+  // Status-only updates have nothing to seal, and mustn't be marked encrypted
+  let sealedAny = false;
+  const seal = (plaintext: string) => {
+    const value = sealValue(vaultKey, vaultSalt!, plaintext);
+    if (value.startsWith(VAULT_PREFIX)) sealedAny = true;
+    return value;
+  };
+  const sealed: Record<string, any> = { ...decision };
+  for (const field of SEALED_FIELDS) {
+    if (typeof sealed[field] === "string") sealed[field] = seal(sealed[field]);
+  }
+  for (const field of SEALED_LIST_FIELDS) {
+    if (!Array.isArray(sealed[field])) continue;
+    sealed[field] = sealed[field].map((item: any) => {
+      if (typeof item === "string") return seal(item);
+      if (!item || typeof item !== "object") return item;
+      const person = { ...item };
+      for (const prop of SEALED_PERSON_PROPS) {
+        if (typeof person[prop] === "string") person[prop] = seal(person[prop]);
+      }
+      return person;
+    });
+  }
+  if (sealedAny) sealed.encrypted = true;
+  return sealed;
 }
 
 // =============================================================================
-// PLUGIN DEFINITION
+// REDACTION (scrub secrets and PII from captured messages)
 // =============================================================================
 
-const momoPlugin = {
-  id: "momo-memory",
-  name: "Momo Memory",
-  description:
-    "Cloud-backed team memory with auto-indexing from Gmail, GitHub, Notion, Slack, Discord",
-  kind: "memory" as const,
+// Runs on every BufferedMessage before it is journaled or sent anywhere.
+// Matches are replaced with `[REDACTED:<detector>]` placeholders, which is
+// also how redactions are counted at flush time.
 
-  async register(api: OpenClawPluginApi) {
-    const config = resolveConfig(api.pluginConfig);
+interface Redactor {
+  name: string;
+  pattern: RegExp;
+  /** Optional post-check — return false to keep the match (e.g. Luhn for cards) */
+  verify?: (match: string) => boolean;
+  /** Replace only part of the match (e.g. the value after `password=`) */
+  replace?: (match: string, placeholder: string) => string;
+}
 
-    if (!config.apiKey) {
-      api.logger.error(
-        "[momo] No API key configured. Set it up at OpenClaw Config → Plugins → All → Momo Memory → Momo API Key"
-      );
-      return;
+const REDACTION_PLACEHOLDER = /\[REDACTED:([A-Za-z0-9_-]+)\]/g;
+
+// Order matters: broader, multi-part formats run before the ones they contain
+// (a connection string contains something that looks like an email).
+const BUILTIN_REDACTORS: Redactor[] = [
+  {
+    name: "private_key",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: "connection_string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:[^\s@/]+@[^\s]+/gi,
+  },
+  { name: "aws_key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { name: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { name: "slack_token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { name: "stripe_key", pattern: /\b(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: "openai_key", pattern: /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g },
+  { name: "momo_key", pattern: /\bmomo_[A-Za-z0-9_-]{16,}/g },
+  { name: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  {
+    name: "bearer_token",
+    pattern: /\bBearer\s+[A-Za-z0-9._~+/-]{20,}=*/g,
+    replace: (_match, placeholder) => `Bearer ${placeholder}`,
+  },
+  {
+    name: "secret_assignment",
+    pattern: /\b(?:api[_-]?key|secret|token|password|passwd|pwd)\b(\s*[:=]\s*)["']?[^\s"']{8,}["']?/gi,
+    replace: (match, placeholder) => `${match.match(/^[^:=]*[:=]\s*/)![0]}${placeholder}`,
+  },
+  { name: "email", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    name: "card_number",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    verify: (match) => luhnValid(match.replace(/\D/g, "")),
+  },
+  {
+    name: "phone",
+    // Requires separators and stops at longer digit runs so IDs, amounts and ISO dates don't match
+    pattern: /(?<![\w+])(?<!\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,4}(?![\s.-]?\d)(?!\w)/g,
+  },
+];
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
     }
+    sum += d;
+  }
+  return digits.length >= 13 && sum % 10 === 0;
+}
 
-    api.logger.info(`[momo] Connecting to ${config.apiUrl}`);
+/**
+ * Build the active redactor list from config. Invalid user patterns are
+ * logged and skipped rather than failing plugin registration.
+ */
+function buildRedactors(
+  config: MomoConfig,
+  logger: OpenClawPluginApi["logger"]
+): { redactors: Redactor[]; allowlist: RegExp[] } {
+  if (!config.redaction) return { redactors: [], allowlist: [] };
 
-    // =========================================================================
-    // TOOL 1: momo_search — Search team decisions
-    // =========================================================================
+  const enabled = config.redactionDetectors;
+  const redactors = BUILTIN_REDACTORS.filter((r) => !enabled || enabled.includes(r.name));
 
-    api.registerTool({
-      name: "momo_search",
-      label: "Search Momo Memory",
-      description:
-        "Search your team's decision memory across Gmail, GitHub, Notion, Slack, and Discord. " +
-        "Returns relevant decisions with context, people involved, and source links.",
-      parameters: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "What to search for (natural language)",
-          },
-          limit: {
-            type: "number",
-            description: "Max results (default 5, max 20)",
-          },
-          source: {
-            type: "string",
-            enum: ["gmail", "github", "notion", "slack", "discord", "openclaw"],
-            description: "Filter by source (optional)",
-          },
-        },
-        required: ["query"],
-      },
-      async execute(_toolCallId: string, params: any) {
-        try {
-          const qs = new URLSearchParams({
-            query: params.query,
-            limit: String(Math.min(params.limit || 5, 20)),
-          });
-          if (params.source) qs.set("source", params.source);
+  for (const rule of config.redactionRules) {
+    try {
+      const flags = rule.flags?.includes("g") ? rule.flags : `${rule.flags || ""}g`;
+      redactors.push({ name: rule.name || "custom", pattern: new RegExp(rule.pattern, flags) });
+    } catch (err: any) {
+      logger.warn(`[momo] Ignoring invalid redaction rule "${rule.name}": ${err.message}`);
+    }
+  }
 
-          const data = await momoFetch(
-            config,
-            `/api/ext/search?${qs.toString()}`
-          );
+  const allowlist: RegExp[] = [];
+  for (const pattern of config.redactionAllowlist) {
+    try {
+      allowlist.push(new RegExp(pattern));
+    } catch (err: any) {
+      logger.warn(`[momo] Ignoring invalid redaction allowlist pattern "${pattern}": ${err.message}`);
+    }
+  }
 
-          if (!data.success || !data.results?.length) {
-            return {
-              content: [{ type: "text", text: "No relevant decisions found." }],
-            };
-          }
+  return { redactors, allowlist };
+}
 
-          const text = data.results
-            .map(
-              (r: any, i: number) =>
-                `${i + 1}. **${r.title}** (${r.source}, ${formatDate(r.sourceDate)})\n` +
-                `   ${r.summary}\n` +
-                `   Type: ${r.decisionType} | Confidence: ${r.confidence}` +
-                (r.involvedPersons?.length
-                  ? `\n   People: ${r.involvedPersons.map((p: any) => p.name).join(", ")}`
-                  : "")
-            )
-            .join("\n\n");
+function redactText(
+  text: string,
+  { redactors, allowlist }: { redactors: Redactor[]; allowlist: RegExp[] }
+): string {
+  let out = text;
+  for (const redactor of redactors) {
+    out = out.replace(redactor.pattern, (match) => {
+      if (allowlist.some((allowed) => allowed.test(match))) return match;
+      if (redactor.verify && !redactor.verify(match)) return match;
+      const placeholder = `[REDACTED:${redactor.name}]`;
+      return redactor.replace ? redactor.replace(match, placeholder) : placeholder;
+    });
+  }
+  return out;
+}
 
-          return {
-            content: [{ type: "text", text }],
-            details: { resultCount: data.results.length },
-          };
-        } catch (err: any) {
-          return {
+/**
+ * Count redaction placeholders in a batch, grouped by detector.
+ */
+function countRedactions(messages: BufferedMessage[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const msg of messages) {
+    const texts = [msg.content, ...(msg.toolCalls || []).flatMap((call) => [call.args, call.result || ""])];
+    for (const text of texts) {
+      for (const match of text.matchAll(REDACTION_PLACEHOLDER)) {
+        counts[match[1]] = (counts[match[1]] || 0) + 1;
+      }
+    }
+  }
+  return counts;
+}
+
+// =============================================================================
+// MESSAGE BUFFER (for debounced auto-capture)
+// =============================================================================
+
+interface BufferedMessage {
+  /** Native message ID, or a content hash ("h:...") when the host has none. Older journals lack it. */
+  id?: string;
+  role: "user" | "assistant";
+  content: string;
+  /** When the message was sent — not when it was buffered */
+  timestamp: string;
+  /** Tools the assistant called in this message, with trimmed results */
+  toolCalls?: CapturedToolCall[];
+}
+
+const messageBuffers = new Map<string, BufferedMessage[]>();
+// Channel key → message IDs of its last flushed batch, so overlap isn't counted twice
+const lastBatchMessageIds = new Map<string, Set<string>>();
+const silenceTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const SILENCE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_BUFFER_SIZE = 20; // Force extract at 20 messages
+const MAX_SEEN_MESSAGES = 2_000; // Remembered message IDs per channel
+const MAX_SEEN_CHANNELS = 500;
+
+// Channel key → IDs of messages already buffered, oldest first. agent_end can
+// carry the whole history, so without this every turn would re-capture it.
+let seenMessages: Map<string, string[]> | null = null;
+let seenSaveTimer: ReturnType<typeof setTimeout> | undefined;
+let seenWrite: Promise<void> = Promise.resolve();
+const SEEN_SAVE_DELAY_MS = 1_000;
+
+function getChannelKey(event: any): string {
+  return event?.session?.channelId || event?.session?.id || "default";
+}
+
+/**
+ * When a message was sent, from whichever field the host provides.
+ * Numbers below 1e12 are taken as Unix seconds.
+ */
+function messageTimestamp(msg: any): string | undefined {
+  const raw = msg?.timestamp ?? msg?.createdAt ?? msg?.created_at ?? msg?.time;
+  if (raw === undefined || raw === null || raw === "") return undefined;
+  const date = typeof raw === "number" ? new Date(raw < 1e12 ? raw * 1000 : raw) : new Date(raw);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * A stable ID for a message: the host's own, or a hash of it. Without a
+ * timestamp, `occurrence` (1 for the first message with this role and
+ * content in the conversation, 2 for the next, ...) tells repeated replies
+ * ("ok", "yes") apart.
+ * Unlike a position, it doesn't shift when the host compacts older turns,
+ * unless an earlier copy of the same message is compacted away.
+ */
+function messageId(msg: any, content: string, occurrence?: number): string {
+  const native = msg?.id ?? msg?.messageId ?? msg?.message_id;
+  if (native !== undefined && native !== null && native !== "") return String(native);
+  const timestamp = messageTimestamp(msg);
+  const when = timestamp || (occurrence !== undefined ? `#${occurrence}` : "");
+  return `h:${createHash("sha256")
+    .update(`${msg?.role}\n${when}\n${content}`)
+    .digest("hex")
+    .slice(0, 24)}`;
+}
+
+function seenMessagesFile(config: MomoConfig): string {
+  return path.join(config.dataDir, "seen-messages.json");
+}
+
+async function loadSeenMessages(config: MomoConfig): Promise<Map<string, string[]>> {
+  if (seenMessages) return seenMessages;
+  try {
+    seenMessages = new Map(Object.entries(JSON.parse(await fs.readFile(seenMessagesFile(config), "utf8"))));
+  } catch {
+    seenMessages = new Map();
+  }
+  return seenMessages;
+}
+
+/**
+ * Drop messages this channel has already seen and mark the rest as seen in
+ * memory, so an overlapping event can't take them too. Nothing is saved
+ * here — call saveSeenMessages once the messages are journaled, so a crash
+ * in between can't lose a turn.
+ */
+async function takeUnseenMessages(
+  config: MomoConfig,
+  channelKey: string,
+  messages: BufferedMessage[]
+): Promise<BufferedMessage[]> {
+  const seen = await loadSeenMessages(config);
+  const ids = seen.get(channelKey) || [];
+  const known = new Set(ids);
+  const fresh = messages.filter((m) => {
+    if (known.has(m.id!)) return false;
+    known.add(m.id!); // Also dedupes within the event
+    return true;
+  });
+  if (fresh.length) markMessagesSeen(seen, channelKey, fresh.map((m) => m.id!));
+  return fresh;
+}
+
+function markMessagesSeen(seen: Map<string, string[]>, channelKey: string, newIds: string[]) {
+  const ids = seen.get(channelKey) || [];
+  ids.push(...newIds.filter((id) => !ids.includes(id)));
+  if (ids.length > MAX_SEEN_MESSAGES) ids.splice(0, ids.length - MAX_SEEN_MESSAGES);
+  seen.delete(channelKey);
+  seen.set(channelKey, ids); // Most recently active channels last
+  for (const key of seen.keys()) {
+    if (seen.size <= MAX_SEEN_CHANNELS) break;
+    seen.delete(key);
+  }
+}
+
+/**
+ * Persist the seen lists. Saves are batched (a busy gateway writes the file
+ * about once a second) and chained, so concurrent saves never race on the
+ * temp file.
+ */
+function saveSeenMessages(config: MomoConfig, logger?: OpenClawPluginApi["logger"]) {
+  if (seenSaveTimer) return;
+  seenSaveTimer = setTimeout(() => {
+    seenSaveTimer = undefined;
+    writeSeenMessages(config).catch((err) => logger?.warn("[momo] Failed to save captured message IDs:", err));
+  }, SEEN_SAVE_DELAY_MS);
+  seenSaveTimer.unref?.();
+}
+
+function writeSeenMessages(config: MomoConfig): Promise<void> {
+  const snapshot = JSON.stringify(Object.fromEntries(seenMessages || []));
+  seenWrite = seenWrite
+    .catch(() => {})
+    .then(async () => {
+      await fs.mkdir(config.dataDir, { recursive: true });
+      await fs.writeFile(`${seenMessagesFile(config)}.tmp`, snapshot, "utf8");
+      await fs.rename(`${seenMessagesFile(config)}.tmp`, seenMessagesFile(config));
+    });
+  return seenWrite;
+}
+
+async function flushSeenMessages(config: MomoConfig) {
+  if (seenSaveTimer) {
+    clearTimeout(seenSaveTimer);
+    seenSaveTimer = undefined;
+    await writeSeenMessages(config);
+  }
+}
+
+/**
+ * Whether auto-capture runs. Extraction sends conversation text to the
+ * server in plaintext, so with the vault on it stays off unless
+ * `vaultExtraction` explicitly accepts that.
+ */
+function isCaptureEnabled(config: MomoConfig): boolean {
+  return config.autoCapture && (!isVaultEnabled(config) || config.vaultExtraction);
+}
+
+/**
+ * Run extraction for a batch and return how many decisions were found.
+ * With the vault on (and `vaultExtraction` set), the server is asked to
+ * extract without persisting and the plugin seals the results before
+ * storing them itself.
+ */
+async function extractDecisions(config: MomoConfig, body: Record<string, unknown>): Promise<number> {
+  if (isVaultEnabled(config) && !config.vaultExtraction) {
+    // E.g. a batch queued in the outbox before the vault was turned on
+    throw new MomoVaultError("Extraction is disabled while the vault is on (set vaultExtraction to allow it)");
+  }
+
+  // The batch key makes retries (ours, the outbox's, a replayed journal) safe server-side
+  const idempotency = (suffix = ""): HeadersInit =>
+    body.batchKey ? { "Idempotency-Key": `${body.batchKey}${suffix}` } : {};
+
+  if (!isVaultEnabled(config)) {
+    const result = await momoFetch(config, "/api/ext/extract", {
+      method: "POST",
+      headers: idempotency(),
+      body: JSON.stringify(body),
+    });
+    return result.decisionsFound || 0;
+  }
+
+  const result = await momoFetch(config, "/api/ext/extract", {
+    method: "POST",
+    headers: idempotency(),
+    body: JSON.stringify({ ...body, persist: false }),
+  });
+  const decisions: Record<string, any>[] = result.decisions || [];
+  if (decisions.length > 0) {
+    // The server links decisions to provenance when it persists them; here we store them ourselves
+    linkProvenance(decisions, (body.provenance as ProvenanceLink[]) || []);
+    await momoFetch(config, "/api/ext/store", {
+      method: "POST",
+      headers: idempotency(":store"),
+      body: JSON.stringify({ decisions: await Promise.all(decisions.map((d) => sealDecision(config, d))) }),
+    });
+  }
+  return decisions.length;
+}
+
+async function flushBuffer(
+  channelKey: string,
+  config: MomoConfig,
+  logger: OpenClawPluginApi["logger"],
+  { force = false }: { force?: boolean } = {}
+) {
+  const buffer = messageBuffers.get(channelKey);
+  if (!buffer || buffer.length < (force ? 1 : 4)) {
+    // Need at least 2 exchanges, unless the conversation asked for a flush
+    messageBuffers.delete(channelKey);
+    await clearJournal(config, channelKey);
+    return;
+  }
+
+  // agent_end can keep appending while we await — only this snapshot is flushed
+  const messages = [...buffer];
+
+  const batchId = getBatchId(channelKey, messages);
+  if (await isBatchExtracted(config, batchId)) {
+    // Already extracted before a crash/restart — don't extract it twice
+    await settleFlushedBuffer(config, channelKey, buffer, messages.length);
+    return;
+  }
+
+  const body = {
+    messages,
+    source: "openclaw",
+    channel: channelKey,
+    batchKey: batchId,
+    provenance: batchProvenance(messages),
+  };
+
+  // Overlap carried over from the channel's previous batch was already counted there
+  const channel = channelKey.replace(/__flush$/, "");
+  const counted = lastBatchMessageIds.get(channel);
+  lastBatchMessageIds.delete(channel);
+  lastBatchMessageIds.set(channel, new Set(messages.map((m) => m.id!).filter(Boolean)));
+  if (lastBatchMessageIds.size > MAX_SEEN_CHANNELS) {
+    lastBatchMessageIds.delete(lastBatchMessageIds.keys().next().value!);
+  }
+  const redactions = Object.entries(
+    countRedactions(messages.filter((m) => !m.id || !counted?.has(m.id)))
+  );
+  if (redactions.length > 0) {
+    const total = redactions.reduce((sum, [, n]) => sum + n, 0);
+    logger.info(
+      `[momo] Redacted ${total} item(s) in ${channelKey} batch (${redactions.map(([name, n]) => `${n} ${name}`).join(", ")})`
+    );
+  }
+
+  try {
+    const decisionsFound = await extractDecisions(config, body);
+
+    await markBatchExtracted(config, batchId);
+
+    if (decisionsFound > 0) {
+      logger.info(
+        `[momo] Captured ${decisionsFound} decision(s) from conversation`
+      );
+    }
+  } catch (err) {
+    if (isTransientError(err)) {
+      // Hand the batch to the outbox so the drainer can retry it once the API is back
+      try {
+        await enqueueOutbox(config, {
+          kind: "extract",
+          path: "/api/ext/extract",
+          body,
+          label: `${messages.length} message(s) from ${channelKey}`,
+          batchId,
+        });
+        logger.warn(
+          `[momo] Auto-capture failed, queued in outbox: ${(err as Error).message}`
+        );
+      } catch (queueErr) {
+        // Couldn't persist to the outbox — keep the journal so a restart replays it
+        logger.warn("[momo] Auto-capture failed and could not be queued:", queueErr);
+        messageBuffers.delete(channelKey);
+        return;
+      }
+    } else {
+      logger.warn("[momo] Auto-capture failed:", err);
+    }
+  }
+
+  await settleFlushedBuffer(config, channelKey, buffer, messages.length);
+}
+
+/**
+ * Drop the first `flushed` messages of a buffer and its journal, keeping any
+ * that arrived while the flush was in flight.
+ */
+async function settleFlushedBuffer(
+  config: MomoConfig,
+  channelKey: string,
+  buffer: BufferedMessage[],
+  flushed: number
+) {
+  // Replaced mid-flush (e.g. the buffer-full path) — its new owner journals it
+  if (messageBuffers.get(channelKey) !== buffer) return;
+
+  const arrived = buffer.slice(flushed);
+  if (arrived.length === 0) {
+    messageBuffers.delete(channelKey);
+    await clearJournal(config, channelKey);
+    return;
+  }
+  messageBuffers.set(channelKey, arrived);
+  await rewriteJournal(config, channelKey, arrived);
+}
+
+// =============================================================================
+// CAPTURE CONTROLS (per-channel policy and in-conversation pause/resume)
+// =============================================================================
+
+// Config decides which channels may ever be captured. Within those, a
+// conversation can pause, resume or flush its own capture through
+// `momo_capture` or a `/momo pause|resume|flush` message. Pauses persist.
+
+type CaptureAction = "pause" | "resume" | "flush";
+
+const CAPTURE_DIRECTIVE = /^\s*\/momo\s+(pause|resume|flush)\b/i;
+const MAX_SESSION_CHANNELS = 500;
+
+// Channel key → when capture was paused. The load itself is cached, so a
+// read that started before a pause can't replace the map the pause updated.
+let pausedChannels: Promise<Map<string, string>> | null = null;
+let captureStateWrite: Promise<void> = Promise.resolve();
+
+// OpenClaw session key → channel key, learned from the hooks. Tools only see
+// the session, but buffers are keyed by channel.
+const sessionChannels = new Map<string, string>();
+
+/** Whether config lets a channel be captured at all, and why. Deny beats allow. */
+function captureChannelPolicy(config: MomoConfig, channelKey: string): { allowed: boolean; reason: string } {
+  const denied = firstMatch(config.captureChannelDeny, channelKey);
+  if (denied) return { allowed: false, reason: `denied by "${denied}"` };
+  if (config.captureChannelAllow.length > 0) {
+    const allowed = firstMatch(config.captureChannelAllow, channelKey);
+    return allowed
+      ? { allowed: true, reason: `allowed by "${allowed}"` }
+      : { allowed: false, reason: "not in captureChannelAllow" };
+  }
+  return { allowed: true, reason: "no channel rules" };
+}
+
+function captureStateFile(config: MomoConfig): string {
+  return path.join(config.dataDir, "capture-state.json");
+}
+
+/** `reload` re-reads the file, for readers in another process than the gateway (the CLI) */
+function loadPausedChannels(config: MomoConfig, { reload = false } = {}): Promise<Map<string, string>> {
+  if (pausedChannels && !reload) return pausedChannels;
+  pausedChannels = fs
+    .readFile(captureStateFile(config), "utf8")
+    .then((text) => new Map(Object.entries(JSON.parse(text).paused || {}) as Array<[string, string]>))
+    .catch(() => new Map<string, string>());
+  return pausedChannels;
+}
+
+/**
+ * Pause or resume a channel. Updates are chained so concurrent pauses never
+ * race on the temp file or write each other's changes away.
+ */
+function setCapturePaused(config: MomoConfig, channelKey: string, paused: boolean): Promise<void> {
+  captureStateWrite = captureStateWrite
+    .catch(() => {})
+    .then(async () => {
+      const channels = await loadPausedChannels(config);
+      if (paused === channels.has(channelKey)) return;
+      if (paused) channels.set(channelKey, new Date().toISOString());
+      else channels.delete(channelKey);
+
+      await fs.mkdir(config.dataDir, { recursive: true });
+      const file = captureStateFile(config);
+      await fs.writeFile(`${file}.tmp`, JSON.stringify({ paused: Object.fromEntries(channels) }, null, 2), "utf8");
+      await fs.rename(`${file}.tmp`, file);
+    });
+  return captureStateWrite;
+}
+
+function rememberSessionChannel(sessionKey: string | undefined, channelKey: string) {
+  if (!sessionKey) return;
+  sessionChannels.delete(sessionKey);
+  sessionChannels.set(sessionKey, channelKey);
+  if (sessionChannels.size > MAX_SESSION_CHANNELS) {
+    sessionChannels.delete(sessionChannels.keys().next().value!);
+  }
+}
+
+function captureDirective(msg: BufferedMessage): CaptureAction | undefined {
+  if (msg.role !== "user") return undefined;
+  return msg.content.match(CAPTURE_DIRECTIVE)?.[1].toLowerCase() as CaptureAction | undefined;
+}
+
+/** One line per channel: whether it's captured, and why not if it isn't */
+async function captureStatusLine(config: MomoConfig, channelKey: string): Promise<string> {
+  const policy = captureChannelPolicy(config, channelKey);
+  const pausedAt = (await loadPausedChannels(config)).get(channelKey);
+  const state = !isCaptureEnabled(config)
+    ? `off (${config.autoCapture ? "vault on, vaultExtraction not set" : "autoCapture disabled"})`
+    : !policy.allowed
+      ? `never captured (${policy.reason})`
+      : pausedAt
+        ? `paused since ${formatDate(pausedAt)}`
+        : "capturing";
+  return `${channelKey}: ${state}`;
+}
+
+/** Flush a channel's buffer now instead of waiting for the silence window */
+async function flushChannelNow(
+  channelKey: string,
+  config: MomoConfig,
+  logger: OpenClawPluginApi["logger"]
+): Promise<number> {
+  const buffered = messageBuffers.get(channelKey)?.length || 0;
+  const timer = silenceTimers.get(channelKey);
+  if (timer) {
+    clearTimeout(timer);
+    silenceTimers.delete(channelKey);
+  }
+  await flushBuffer(channelKey, config, logger, { force: true });
+  return buffered;
+}
+
+// =============================================================================
+// TOOL PROVENANCE (tool calls captured alongside auto-captured messages)
+// =============================================================================
+
+// What the agent looked at while a decision was made — the PR it read, the
+// issue it fetched — rides along in the batch so extracted decisions can be
+// linked back to it. Results are redacted and trimmed like message text.
+
+interface CapturedToolCall {
+  name: string;
+  /** Redacted, JSON-encoded arguments */
+  args: string;
+  /** Redacted result text, trimmed to the tool's limit; absent when dropped or not returned */
+  result?: string;
+  isError?: boolean;
+  links: ProvenanceLink[];
+}
+
+interface ProvenanceLink {
+  kind: "pr" | "issue" | "email" | "link";
+  tool: string;
+  url?: string;
+  /** PR number, issue key, message ID, ... when the call had no URL */
+  ref?: string;
+}
+
+const TOOL_ARGS_MAX_CHARS = 500;
+const MAX_TOOL_CALLS_PER_MESSAGE = 10;
+const MAX_LINKS_PER_CALL = 5;
+const PROVENANCE_URL_PATTERN = /https?:\/\/[^\s"'<>()[\]{}]+/g;
+// Argument names that identify the thing a tool fetched, most specific first
+const PROVENANCE_REF_KEYS = [
+  "pull_number", "pullNumber", "issue_number", "issueNumber", "identifier",
+  "issueId", "messageId", "threadId", "number", "key", "id",
+];
+
+function toolResultLimit(config: MomoConfig, toolName: string): number {
+  const match = firstMatch(Object.keys(config.captureToolResultLimits), toolName);
+  return match ? config.captureToolResultLimits[match] : config.captureToolResultChars;
+}
+
+function trimText(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}… [${text.length - max} more chars]` : text;
+}
+
+function toolContentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((c: any) => c?.type === "text")
+      .map((c: any) => c.text)
+      .join("\n");
+  }
+  return content === undefined || content === null ? "" : JSON.stringify(content);
+}
+
+/** Tool calls in an assistant message, in any of the shapes hosts use */
+function toolCallsOf(msg: any): Array<{ id?: string; name: string; args: unknown }> {
+  const calls: Array<{ id?: string; name: string; args: unknown }> = [];
+  if (Array.isArray(msg?.content)) {
+    for (const block of msg.content) {
+      if (block?.type === "toolCall" || block?.type === "tool_use" || block?.type === "tool_call") {
+        calls.push({ id: block.id, name: block.name, args: block.arguments ?? block.input ?? block.args });
+      }
+    }
+  }
+  for (const call of msg?.tool_calls || msg?.toolCalls || []) {
+    calls.push({ id: call.id, name: call.function?.name ?? call.name, args: call.function?.arguments ?? call.arguments });
+  }
+  return calls.filter((call) => typeof call.name === "string" && call.name.length > 0);
+}
+
+/** Tool results in a message list, keyed by the ID of the call they answer */
+function toolResultsOf(messages: any[]): Map<string, { text: string; isError: boolean }> {
+  const results = new Map<string, { text: string; isError: boolean }>();
+  for (const msg of messages) {
+    const callId = msg?.toolCallId ?? msg?.tool_call_id;
+    if ((msg?.role === "toolResult" || msg?.role === "tool") && callId) {
+      results.set(String(callId), { text: toolContentText(msg.content), isError: msg.isError === true });
+    }
+    if (Array.isArray(msg?.content)) {
+      for (const block of msg.content) {
+        if (block?.type === "tool_result" && block.tool_use_id) {
+          results.set(String(block.tool_use_id), {
+            text: toolContentText(block.content),
+            isError: block.is_error === true,
+          });
+        }
+      }
+    }
+  }
+  return results;
+}
+
+function provenanceKind(toolName: string, url = ""): ProvenanceLink["kind"] {
+  if (/\/pulls?\/\d+|\/merge_requests\/\d+/.test(url)) return "pr";
+  if (/\/issues?\/[\w-]+|linear\.app\/|\/browse\/[A-Z]+-\d+/.test(url)) return "issue";
+  if (/mail\.google\.com|outlook\.(live|office)\.com/.test(url)) return "email";
+  if (url) return "link";
+  if (/(^|_)(pr|prs|pull|pulls|pull_request|merge_request)(_|$)/i.test(toolName)) return "pr";
+  if (/issue|ticket|linear|jira/i.test(toolName)) return "issue";
+  if (/mail|outlook/i.test(toolName)) return "email";
+  return "link";
+}
+
+/**
+ * What a tool call was about: URLs in its arguments, then in its result, or
+ * failing that the ID it was called with. Reads redacted text only, so a
+ * secret in a URL never becomes a link.
+ */
+function provenanceLinks(toolName: string, args: string, result: string): ProvenanceLink[] {
+  const links: ProvenanceLink[] = [];
+  const seen = new Set<string>();
+  for (const [raw] of `${args}\n${result}`.matchAll(PROVENANCE_URL_PATTERN)) {
+    const url = raw.replace(/[.,;:!?]+$/, "");
+    if (seen.has(url) || url.includes("[REDACTED")) continue;
+    seen.add(url);
+    links.push({ kind: provenanceKind(toolName, url), tool: toolName, url });
+    if (links.length >= MAX_LINKS_PER_CALL) break;
+  }
+  if (links.length > 0) return links;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(args);
+  } catch {
+    return links;
+  }
+  const key = PROVENANCE_REF_KEYS.find(
+    (k) => typeof parsed?.[k] === "string" || typeof parsed?.[k] === "number"
+  );
+  if (key) {
+    const repo = typeof parsed.repo === "string" ? parsed.repo : "";
+    const ref = String(parsed[key]);
+    links.push({ kind: provenanceKind(toolName), tool: toolName, ref: repo ? `${repo}#${ref}` : ref });
+  }
+  return links;
+}
+
+/**
+ * Capture an assistant message's tool calls: arguments and results are
+ * redacted and trimmed, opted-out tools are skipped, and Momo's own tools
+ * never count — recalled memory isn't new provenance.
+ */
+function captureToolCalls(
+  config: MomoConfig,
+  msg: any,
+  results: Map<string, { text: string; isError: boolean }>,
+  redaction: { redactors: Redactor[]; allowlist: RegExp[] }
+): CapturedToolCall[] {
+  if (!config.captureToolCalls) return [];
+  const captured: CapturedToolCall[] = [];
+  for (const call of toolCallsOf(msg)) {
+    if (captured.length >= MAX_TOOL_CALLS_PER_MESSAGE) break;
+    if (MOMO_TOOL_NAMES.has(call.name) || firstMatch(config.captureToolDeny, call.name)) continue;
+
+    const rawArgs = typeof call.args === "string" ? call.args : JSON.stringify(call.args ?? {});
+    const args = redactText(rawArgs, redaction);
+    const returned = call.id ? results.get(String(call.id)) : undefined;
+    const limit = toolResultLimit(config, call.name);
+    // A limit of 0 keeps the result out of the batch entirely, links included
+    const fullResult = returned && limit > 0 ? redactText(returned.text, redaction) : "";
+
+    const entry: CapturedToolCall = {
+      name: call.name,
+      args: trimText(args, TOOL_ARGS_MAX_CHARS),
+      // Links come from the untrimmed result so a long result still yields its URL
+      links: provenanceLinks(call.name, args, fullResult),
+    };
+    if (returned && limit > 0) entry.result = trimText(fullResult, limit);
+    if (returned?.isError) entry.isError = true;
+    captured.push(entry);
+  }
+  return captured;
+}
+
+/** Every distinct link in a batch, for the server to attach to what it extracts */
+function batchProvenance(messages: BufferedMessage[]): ProvenanceLink[] {
+  const links = new Map<string, ProvenanceLink>();
+  for (const msg of messages) {
+    for (const call of msg.toolCalls || []) {
+      for (const link of call.links) {
+        const key = link.url || `${link.tool}:${link.ref}`;
+        if (!links.has(key)) links.set(key, link);
+      }
+    }
+  }
+  return [...links.values()];
+}
+
+/**
+ * Give decisions without a source the PR, issue or email they mention, by
+ * URL, `#number` or issue key. A decision that mentions none stays unlinked,
+ * even when the batch touched only one.
+ */
+function linkProvenance(decisions: Record<string, any>[], provenance: ProvenanceLink[]): void {
+  const candidates = provenance.filter((link) => link.url && link.kind !== "link");
+  if (candidates.length === 0) return;
+  for (const d of decisions) {
+    if (d.sourceUrl) continue;
+    const text = `${d.title || ""}\n${d.summary || ""}\n${d.context || ""}`;
+    const link = candidates.find((c) => {
+      if (text.includes(c.url!)) return true;
+      const number = c.url!.match(/\/(\d+)\/?$/)?.[1];
+      if (number !== undefined && new RegExp(`#${number}\\b`).test(text)) return true;
+      const key = c.url!.match(/\/([A-Z][A-Z0-9]*-\d+)\/?$/)?.[1];
+      return key !== undefined && new RegExp(`\\b${key}\\b`).test(text);
+    });
+    if (link) d.sourceUrl = link.url;
+  }
+}
+
+// =============================================================================
+// BUFFER JOURNAL (crash-safe persistence for auto-capture buffers)
+// =============================================================================
+
+// Each channel's buffer is mirrored to an append-only JSONL file so a crash
+// or kill before the silence window ends doesn't lose the conversation.
+// Journals are replayed through flushBuffer on the next register().
+
+interface JournalEntry {
+  channel: string;
+  message: BufferedMessage;
+}
+
+const MAX_EXTRACTED_BATCHES = 500; // Remembered batch IDs for dedupe
+
+let extractedBatches: string[] | null = null;
+
+function journalDir(config: MomoConfig): string {
+  return path.join(config.dataDir, "buffers");
+}
+
+function journalPath(config: MomoConfig, channelKey: string): string {
+  // Channel keys can contain anything — hash them into a safe filename
+  const hash = createHash("sha256").update(channelKey).digest("hex").slice(0, 32);
+  return path.join(journalDir(config), `${hash}.jsonl`);
+}
+
+/**
+ * Stable key for a batch: the channel plus its message IDs. Also sent to the
+ * server as the extraction's idempotency key.
+ */
+function getBatchId(channelKey: string, messages: BufferedMessage[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ channel: channelKey, ids: messages.map((m) => m.id || messageId(m, m.content)) }))
+    .digest("hex");
+}
+
+async function appendToJournal(
+  config: MomoConfig,
+  channelKey: string,
+  messages: BufferedMessage[]
+) {
+  const lines = messages
+    .map((message) => JSON.stringify({ channel: channelKey, message } as JournalEntry))
+    .join("\n");
+  await fs.mkdir(journalDir(config), { recursive: true });
+  await fs.appendFile(journalPath(config, channelKey), lines + "\n", "utf8");
+}
+
+/**
+ * Replace a channel's journal with the given messages.
+ * Written to a temp file and renamed so a crash never leaves a half-written journal.
+ */
+async function rewriteJournal(
+  config: MomoConfig,
+  channelKey: string,
+  messages: BufferedMessage[]
+) {
+  if (messages.length === 0) {
+    await clearJournal(config, channelKey);
+    return;
+  }
+
+  const file = journalPath(config, channelKey);
+  const tmp = `${file}.tmp`;
+  const lines = messages
+    .map((message) => JSON.stringify({ channel: channelKey, message } as JournalEntry))
+    .join("\n");
+  await fs.mkdir(journalDir(config), { recursive: true });
+  await fs.writeFile(tmp, lines + "\n", "utf8");
+  await fs.rename(tmp, file);
+}
+
+async function clearJournal(config: MomoConfig, channelKey: string) {
+  await fs.rm(journalPath(config, channelKey), { force: true });
+}
+
+async function loadExtractedBatches(config: MomoConfig): Promise<string[]> {
+  if (extractedBatches) return extractedBatches;
+  try {
+    const raw = await fs.readFile(path.join(config.dataDir, "extracted.json"), "utf8");
+    const parsed = JSON.parse(raw);
+    extractedBatches = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    extractedBatches = [];
+  }
+  return extractedBatches;
+}
+
+async function isBatchExtracted(config: MomoConfig, batchId: string): Promise<boolean> {
+  const batches = await loadExtractedBatches(config);
+  return batches.includes(batchId);
+}
+
+async function markBatchExtracted(config: MomoConfig, batchId: string) {
+  const batches = await loadExtractedBatches(config);
+  batches.push(batchId);
+  if (batches.length > MAX_EXTRACTED_BATCHES) {
+    batches.splice(0, batches.length - MAX_EXTRACTED_BATCHES);
+  }
+  await fs.mkdir(config.dataDir, { recursive: true });
+  await fs.writeFile(
+    path.join(config.dataDir, "extracted.json"),
+    JSON.stringify(batches),
+    "utf8"
+  );
+}
+
+/**
+ * Restore buffers from journals left behind by a previous process, so the
+ * conversation picks up where it left off. Returns the channels with enough
+ * messages to flush right away. Truncated trailing lines (from a crash
+ * mid-write) are skipped.
+ */
+async function restoreJournals(
+  config: MomoConfig,
+  logger: OpenClawPluginApi["logger"]
+): Promise<string[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(journalDir(config));
+  } catch {
+    return []; // No journal directory yet
+  }
+
+  const recovered = new Map<string, BufferedMessage[]>();
+  for (const file of files) {
+    if (!file.endsWith(".jsonl")) continue;
+
+    const raw = await fs.readFile(path.join(journalDir(config), file), "utf8");
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (!entry.channel || !entry.message) continue;
+        if (!recovered.has(entry.channel)) recovered.set(entry.channel, []);
+        recovered.get(entry.channel)!.push(entry.message);
+      } catch {
+        // Partial line from an interrupted write
+      }
+    }
+  }
+
+  if (recovered.size === 0) return [];
+
+  logger.info(
+    `[momo] Recovering ${recovered.size} buffered conversation(s) from previous session`
+  );
+
+  const ready: string[] = [];
+  for (const [channelKey, messages] of recovered) {
+    if (!captureChannelPolicy(config, channelKey.replace(/__flush$/, "")).allowed) {
+      // Denied since it was journaled — drop it rather than extract it
+      await clearJournal(config, channelKey);
+      continue;
+    }
+    messageBuffers.set(channelKey, messages);
+    // The crash may have come before their IDs were saved; they're buffered again now
+    markMessagesSeen(await loadSeenMessages(config), channelKey.replace(/__flush$/, ""), messages.map((m) => m.id!).filter(Boolean));
+    saveSeenMessages(config, logger);
+    if (messages.length >= 4) ready.push(channelKey); // Otherwise the journal stays until the buffer is flushed
+  }
+  return ready;
+}
+
+// =============================================================================
+// SCHEMA VALIDATION (local check of integration tool params)
+// =============================================================================
+
+// A small JSON Schema subset — what integration tools actually advertise:
+// type, required, properties, additionalProperties, items, enum, const,
+// string/number/array bounds, pattern and common formats. Unknown keywords
+// are ignored so a richer schema never blocks a valid call.
+
+interface SchemaError {
+  /** JSON-pointer-ish path to the field, e.g. "to" or "attachments[0].name" */
+  field: string;
+  message: string;
+}
+
+const SCHEMA_FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\S+$/i,
+  url: /^https?:\/\/\S+$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  time: /^\d{2}:\d{2}(:\d{2})?$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function validateSchema(schema: any, value: unknown, field = ""): SchemaError[] {
+  if (!schema || typeof schema !== "object") return [];
+  const errors: SchemaError[] = [];
+  const at = field || "(params)";
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [{ field: at, message: `expected ${types.join(" or ")}, got ${jsonType(value)}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: unknown) => option === value)) {
+    errors.push({ field: at, message: `must be one of: ${schema.enum.map((o: unknown) => JSON.stringify(o)).join(", ")}` });
+  }
+  if ("const" in schema && schema.const !== value) {
+    errors.push({ field: at, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field: at, message: `must be at least ${schema.minLength} character(s)` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field: at, message: `must be at most ${schema.maxLength} character(s)` });
+    }
+    if (schema.pattern) {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) {
+          errors.push({ field: at, message: `must match pattern ${schema.pattern}` });
+        }
+      } catch {
+        // Server-side regex dialect we can't compile — let the server judge
+      }
+    }
+    if (schema.format && SCHEMA_FORMATS[schema.format] && !SCHEMA_FORMATS[schema.format].test(value)) {
+      errors.push({ field: at, message: `must be a valid ${schema.format}` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ field: at, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ field: at, message: `must have at most ${schema.maxItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items, item, `${field}[${i}]`)));
+    }
+  }
+
+  if (jsonType(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        errors.push({ field: field ? `${field}.${key}` : key, message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childField = field ? `${field}.${key}` : key;
+      if (key in properties) {
+        if (child !== undefined) errors.push(...validateSchema(properties[key], child, childField));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: childField, message: "is not a known parameter" });
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateSchema(schema.additionalProperties, child, childField));
+      }
+    }
+  }
+
+  return errors;
+}
+
+// =============================================================================
+// INTEGRATION TOOLS (read/write classification, confirmation, execution)
+// =============================================================================
+
+// Verbs that mark a tool as read-only when the server doesn't say. Anything
+// else (forward, trash, approve, ...) is treated as a write.
+const READ_TOOL_VERBS = new Set(["get", "list", "search", "read", "fetch", "find"]);
+
+const PENDING_ACTION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+interface PendingAction {
+  id: string;
+  toolName: string;
+  params: Record<string, unknown>;
+  createdAt: number;
+  sessionKey: string;
+  // Session turn the preview was shown in; approval needs a later one
+  turn: number;
+}
+
+const pendingActions = new Map<string, PendingAction>();
+
+// OpenClaw session key → agent turns started. Lets momo_confirm_action tell
+// whether the user has replied since a preview was shown.
+const sessionTurns = new Map<string, number>();
+const MAX_SESSION_TURNS = 500;
+
+function toolSessionKey(ctx?: OpenClawPluginToolContext): string {
+  return ctx?.sessionKey || "default";
+}
+
+function noteSessionTurn(sessionKey: string) {
+  const turn = (sessionTurns.get(sessionKey) || 0) + 1;
+  sessionTurns.delete(sessionKey);
+  sessionTurns.set(sessionKey, turn);
+  if (sessionTurns.size > MAX_SESSION_TURNS) {
+    sessionTurns.delete(sessionTurns.keys().next().value!);
+  }
+}
+
+/**
+ * Classify an integration tool as side-effecting. Prefers the server's own
+ * hints (`readOnly`, or MCP-style `annotations.readOnlyHint`), then the verb
+ * in the tool name (`gmail_get_email` → read). Fails closed: a tool is only
+ * a read when something says so.
+ */
+function isWriteTool(tool: { name: string; readOnly?: boolean; annotations?: { readOnlyHint?: boolean } }): boolean {
+  if (typeof tool.readOnly === "boolean") return !tool.readOnly;
+  if (typeof tool.annotations?.readOnlyHint === "boolean") return !tool.annotations.readOnlyHint;
+  return !READ_TOOL_VERBS.has(tool.name.split("_")[1]?.toLowerCase() ?? "");
+}
+
+function toolIntegration(tool: { name: string; integration?: string }): string {
+  return tool.integration || tool.name.split("_")[0];
+}
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+}
+
+function firstMatch(patterns: string[] | undefined, value: string): string | undefined {
+  return patterns?.find((pattern) => globToRegExp(pattern).test(value));
+}
+
+/**
+ * Decide whether an integration tool is exposed, and why.
+ * Integration rules run before tool-name rules; deny always beats allow.
+ */
+function evaluateToolPolicy(
+  policy: ToolPolicy,
+  tool: { name: string; integration?: string },
+  agentId?: string
+): { allowed: boolean; reason: string } {
+  const override = agentId ? policy.agents?.[agentId] : undefined;
+  const rules: ToolPolicyRules = { ...policy, ...override };
+  const scope = (field: keyof ToolPolicyRules) =>
+    override && field in override ? `agent "${agentId}"` : "toolPolicy";
+  const integration = toolIntegration(tool);
+
+  let match = firstMatch(rules.integrations?.deny, integration);
+  if (match) return { allowed: false, reason: `integration denied by ${scope("integrations")} "${match}"` };
+  if (rules.integrations?.allow?.length && !firstMatch(rules.integrations.allow, integration)) {
+    return { allowed: false, reason: `integration not in ${scope("integrations")} allow list` };
+  }
+
+  match = firstMatch(rules.deny, tool.name);
+  if (match) return { allowed: false, reason: `denied by ${scope("deny")} "${match}"` };
+  if (rules.allow?.length) {
+    match = firstMatch(rules.allow, tool.name);
+    if (!match) return { allowed: false, reason: `not in ${scope("allow")} allow list` };
+    return { allowed: true, reason: `allowed by ${scope("allow")} "${match}"` };
+  }
+
+  return { allowed: true, reason: "no policy" };
+}
+
+/**
+ * Render the exact payload a write tool would send, one field per line.
+ * Multi-line values (email bodies, page content) are shown as indented blocks.
+ */
+function formatActionPreview(toolName: string, params: Record<string, unknown>): string {
+  const lines = [`**${toolNameToLabel(toolName)}** (\`${toolName}\`)`];
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "") continue;
+    const text = typeof value === "string" ? value : JSON.stringify(value, null, 2);
+    if (text.includes("\n")) {
+      lines.push(`${key}:`);
+      lines.push(...text.split("\n").map((line) => `    ${line}`));
+    } else {
+      lines.push(`${key}: ${text}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function prunePendingActions() {
+  const now = Date.now();
+  for (const [id, action] of pendingActions) {
+    if (now - action.createdAt > PENDING_ACTION_TTL_MS) pendingActions.delete(id);
+  }
+}
+
+async function executeIntegrationTool(
+  config: MomoConfig,
+  toolName: string,
+  params: Record<string, unknown>,
+  writeTool: boolean
+) {
+  try {
+    const data = await momoFetch(config, "/api/ext/tools/execute", {
+      method: "POST",
+      body: JSON.stringify({ tool: toolName, params }),
+      // Never retry a side effect — a timed-out send may still have gone out.
+      // Reads go through the same POST endpoint but are safe to repeat.
+      retries: writeTool ? 0 : config.maxRetries,
+    });
+
+    if (!data.success) {
+      return {
+        content: [{ type: "text", text: `Failed: ${data.error}` }],
+      };
+    }
+
+    return budgetToolResult(config, toolName, data.result);
+  } catch (err: any) {
+    return {
+      content: [{ type: "text", text: `${toolName} failed: ${err.message}` }],
+    };
+  }
+}
+
+// =============================================================================
+// TOOL RESULT BUDGETS (truncation + paging of large integration results)
+// =============================================================================
+
+// Results over a tool's character budget are shrunk (long arrays cut, long
+// strings clipped, with a note of what was dropped) and the full text is kept
+// behind a handle that momo_tool_result_page can page through.
+
+const RESULT_HANDLE_TTL_MS = 30 * 60 * 1000; // 30 minutes
+const MAX_RESULT_HANDLES = 20;
+// Progressively tighter limits tried until the shrunk result fits the budget
+const SHRINK_STEPS: Array<{ maxItems: number; maxString: number }> = [
+  { maxItems: 50, maxString: 4000 },
+  { maxItems: 20, maxString: 2000 },
+  { maxItems: 10, maxString: 1000 },
+  { maxItems: 5, maxString: 500 },
+  { maxItems: 3, maxString: 200 },
+  { maxItems: 1, maxString: 100 },
+];
+
+interface StoredResult {
+  toolName: string;
+  text: string;
+  pageSize: number;
+  createdAt: number;
+}
+
+const resultHandles = new Map<string, StoredResult>();
+
+function toolOutputBudget(config: MomoConfig, toolName: string): number {
+  const match = firstMatch(Object.keys(config.toolOutputBudgets), toolName);
+  return match ? config.toolOutputBudgets[match] : config.toolOutputBudget;
+}
+
+function shrinkValue(
+  value: unknown,
+  limits: { maxItems: number; maxString: number },
+  stats: { droppedItems: number; clippedStrings: number }
+): unknown {
+  if (typeof value === "string") {
+    if (value.length <= limits.maxString) return value;
+    stats.clippedStrings++;
+    return `${value.slice(0, limits.maxString)}… [${value.length - limits.maxString} more chars]`;
+  }
+  if (Array.isArray(value)) {
+    const kept = value.slice(0, limits.maxItems).map((item) => shrinkValue(item, limits, stats));
+    if (value.length > limits.maxItems) {
+      stats.droppedItems += value.length - limits.maxItems;
+      kept.push(`… ${value.length - limits.maxItems} more item(s) omitted`);
+    }
+    return kept;
+  }
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = shrinkValue(v, limits, stats);
+    return out;
+  }
+  return value;
+}
+
+function storeResult(toolName: string, text: string, pageSize: number): string {
+  const now = Date.now();
+  for (const [handle, stored] of resultHandles) {
+    if (now - stored.createdAt > RESULT_HANDLE_TTL_MS) resultHandles.delete(handle);
+  }
+  while (resultHandles.size >= MAX_RESULT_HANDLES) {
+    // Maps iterate in insertion order — drop the oldest
+    resultHandles.delete(resultHandles.keys().next().value!);
+  }
+
+  const handle = `r_${randomUUID().slice(0, 8)}`;
+  resultHandles.set(handle, { toolName, text, pageSize, createdAt: now });
+  return handle;
+}
+
+/**
+ * Fit a tool result into its budget. Small results pass through untouched.
+ */
+function budgetToolResult(config: MomoConfig, toolName: string, result: unknown) {
+  const fullText = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+  const budget = toolOutputBudget(config, toolName);
+
+  if (budget <= 0 || fullText.length <= budget) {
+    return { content: [{ type: "text", text: fullText }] };
+  }
+
+  const stats = { droppedItems: 0, clippedStrings: 0 };
+  let preview = fullText.slice(0, budget);
+  if (typeof result !== "string") {
+    for (const limits of SHRINK_STEPS) {
+      stats.droppedItems = 0;
+      stats.clippedStrings = 0;
+      const shrunk = JSON.stringify(shrinkValue(result, limits, stats), null, 2);
+      preview = shrunk;
+      if (shrunk.length <= budget) break;
+    }
+    // Still too big (e.g. a very wide object) — fall back to a hard cut
+    if (preview.length > budget) preview = preview.slice(0, budget);
+  }
+
+  const handle = storeResult(toolName, fullText, budget);
+  const pages = Math.ceil(fullText.length / budget);
+  const dropped = [
+    stats.droppedItems ? `${stats.droppedItems} list item(s) omitted` : "",
+    stats.clippedStrings ? `${stats.clippedStrings} long field(s) clipped` : "",
+  ].filter(Boolean);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text:
+          `${preview}\n\n` +
+          `[Result truncated to fit ${budget} chars (full result ${fullText.length} chars` +
+          (dropped.length ? `; ${dropped.join(", ")}` : "") +
+          `). To read everything, call momo_tool_result_page with handle "${handle}" and page 1-${pages}.]`,
+      },
+    ],
+    details: { truncated: true, handle, pages, fullLength: fullText.length },
+  };
+}
+
+// Tool that runs integration tools discovered after startup
+const INTEGRATION_DISPATCHER = "momo_integration_tool";
+
+// Built-in tools registered directly in register() — never shadowed by capabilities
+const MOMO_TOOL_NAMES = new Set([
+  "momo_search", "momo_store", "momo_context", "momo_summary",
+  "momo_schedule", "momo_list_schedules", "momo_cancel_schedule",
+  "momo_confirm_action", "momo_tool_result_page",
+  "momo_update_decision", "momo_reverse_decision", "momo_supersede_decision",
+  "momo_get", "momo_related", "momo_cite", "momo_capture", INTEGRATION_DISPATCHER,
+]);
+
+interface IntegrationToolEntry {
+  tool: any;
+  def: Record<string, any>;
+  /** False once the integration is disconnected — the factory then returns null */
+  available: boolean;
+  /**
+   * Registered as a tool of its own. Only possible during register(), when
+   * OpenClaw compiles the tool list; later arrivals go through INTEGRATION_DISPATCHER.
+   */
+  registered: boolean;
+}
+
+// Live registry behind the tool factories. Factories are resolved per agent
+// run, so refreshing this map enables/disables tools without a restart.
+const integrationTools = new Map<string, IntegrationToolEntry>();
+
+// How often the gateway checks whether `tools --refresh` rewrote the cache
+const CAPABILITIES_CACHE_CHECK_MS = 10_000;
+
+// mtime of the cache as this process last wrote or synced it
+let capabilitiesCacheMtimeMs = 0;
+
+function capabilitiesCachePath(config: MomoConfig): string {
+  return path.join(config.dataDir, "capabilities.json");
+}
+
+async function loadCachedCapabilities(config: MomoConfig): Promise<{ fetchedAt: string; caps: any } | null> {
+  try {
+    return JSON.parse(await fs.readFile(capabilitiesCachePath(config), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function saveCachedCapabilities(config: MomoConfig, caps: any) {
+  const file = capabilitiesCachePath(config);
+  await fs.mkdir(config.dataDir, { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify({ fetchedAt: new Date().toISOString(), caps }), "utf8");
+  await fs.rename(`${file}.tmp`, file);
+  capabilitiesCacheMtimeMs = (await fs.stat(file)).mtimeMs;
+}
+
+/**
+ * Build the OpenClaw tool definition for one integration tool.
+ */
+function buildIntegrationTool(config: MomoConfig, tool: any): Record<string, any> {
+  const parameters = tool.parameters || { type: "object", properties: {} };
+  const writeTool = isWriteTool(tool);
+
+  return {
+    name: tool.name,
+    label: toolNameToLabel(tool.name),
+    description: writeTool && (config.writeToolsDryRun || config.confirmWriteTools)
+      ? `${tool.description} (Requires user confirmation — returns a preview first.)`
+      : tool.description,
+    parameters,
+    async execute(_toolCallId: string, params: any, ctx?: OpenClawPluginToolContext) {
+      // Catch malformed calls locally so the model can fix them without a round-trip
+      const errors = validateSchema(parameters, params ?? {});
+      if (errors.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Invalid parameters for ${tool.name} — nothing was sent. Fix these and call it again:\n` +
+                errors.map((e) => `- ${e.field}: ${e.message}`).join("\n"),
+            },
+          ],
+          details: { validationErrors: errors },
+        };
+      }
+
+      if (writeTool && config.writeToolsDryRun) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `DRY RUN — nothing was sent. This is what would be sent:\n\n${formatActionPreview(tool.name, params || {})}`,
+            },
+          ],
+          details: { dryRun: true },
+        };
+      }
+
+      if (writeTool && config.confirmWriteTools) {
+        prunePendingActions();
+        const action: PendingAction = {
+          id: randomUUID().slice(0, 8),
+          toolName: tool.name,
+          params: params || {},
+          createdAt: Date.now(),
+          sessionKey: toolSessionKey(ctx),
+          turn: sessionTurns.get(toolSessionKey(ctx)) || 0,
+        };
+        pendingActions.set(action.id, action);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `Confirmation required — nothing has been sent yet.\n\n` +
+                `${formatActionPreview(tool.name, action.params)}\n\n` +
+                `Show this preview to the user and ask them to approve or deny it. ` +
+                `Then call momo_confirm_action with actionId "${action.id}" once they reply. ` +
+                `Only approve if the user explicitly said yes; to change anything, deny and call ${tool.name} again.`,
+            },
+          ],
+          details: { pendingActionId: action.id },
+        };
+      }
+
+      return executeIntegrationTool(config, tool.name, params, writeTool);
+    },
+  };
+}
+
+/**
+ * Bind an integration tool definition to the agent run it was resolved for,
+ * so confirmation previews know which session they belong to.
+ */
+function withToolContext(def: Record<string, any>, ctx: OpenClawPluginToolContext): Record<string, any> {
+  return {
+    ...def,
+    execute: (toolCallId: string, params: any) => def.execute(toolCallId, params, ctx),
+  };
+}
+
+/**
+ * Reconcile the live registry with a capabilities response: register tools
+ * that are new, refresh ones that changed, and disable ones whose integration
+ * is gone. Tools toolPolicy hides from every agent are never registered.
+ */
+function syncIntegrationTools(
+  api: OpenClawPluginApi,
+  config: MomoConfig,
+  caps: any,
+  { register }: { register: boolean }
+): { added: number; enabled: number; disabled: number; filtered: number } {
+  const result = { added: 0, enabled: 0, disabled: 0, filtered: 0 };
+  const agentOverrides = Object.keys(config.toolPolicy.agents || {});
+  const seen = new Set<string>();
+
+  for (const tool of caps.tools || []) {
+    if (MOMO_TOOL_NAMES.has(tool.name)) continue;
+
+    const anyAgentAllows = agentOverrides.some(
+      (agentId) => evaluateToolPolicy(config.toolPolicy, tool, agentId).allowed
+    );
+    if (!evaluateToolPolicy(config.toolPolicy, tool).allowed && !anyAgentAllows) {
+      result.filtered++;
+      continue;
+    }
+
+    seen.add(tool.name);
+    const existing = integrationTools.get(tool.name);
+    if (existing) {
+      if (!existing.available) result.enabled++;
+      existing.tool = tool;
+      existing.def = buildIntegrationTool(config, tool);
+      existing.available = true;
+      continue;
+    }
+
+    integrationTools.set(tool.name, {
+      tool,
+      def: buildIntegrationTool(config, tool),
+      available: true,
+      registered: register,
+    });
+    result.added++;
+    if (!register) continue;
+    api.registerTool(
+      (ctx: OpenClawPluginToolContext) => {
+        const entry = integrationTools.get(tool.name);
+        if (!entry?.available) return null;
+        // Resolved per agent, so toolPolicy overrides can hide or expose it
+        return evaluateToolPolicy(config.toolPolicy, entry.tool, ctx?.agentId).allowed
+          ? withToolContext(entry.def, ctx)
+          : null;
+      },
+      { name: tool.name }
+    );
+  }
+
+  for (const [name, entry] of integrationTools) {
+    if (entry.available && !seen.has(name)) {
+      entry.available = false;
+      result.disabled++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fetch capabilities and sync integration tools. On startup, an unreachable
+ * API falls back to the last cached response so tools still exist this session.
+ */
+async function refreshIntegrationTools(
+  api: OpenClawPluginApi,
+  config: MomoConfig,
+  { startup = false }: { startup?: boolean } = {}
+) {
+  let caps: any;
+  try {
+    caps = await momoFetch(config, "/api/ext/capabilities");
+    if (caps.success) await saveCachedCapabilities(config, caps).catch(() => {});
+  } catch (err: any) {
+    if (!startup) throw err;
+    const cached = await loadCachedCapabilities(config);
+    if (!cached) {
+      api.logger.warn("[momo] Failed to load integration tools:", err.message);
+      return null;
+    }
+    api.logger.warn(
+      `[momo] Failed to load integration tools (${err.message}), using cached capabilities from ${formatDate(cached.fetchedAt)}`
+    );
+    caps = cached.caps;
+  }
+
+  if (!caps.success) {
+    api.logger.warn(`[momo] Failed to load integration tools: ${caps.error || "capabilities request was not successful"}`);
+    return null;
+  }
+
+  // Registering only works while register() runs; later syncs feed the dispatcher
+  const result = syncIntegrationTools(api, config, caps, { register: startup });
+
+  if (startup) {
+    if (result.added > 0) {
+      api.logger.info(
+        `[momo] Registered ${result.added} integration tool(s) (${caps.integrations.join(", ")})`
+      );
+    } else if (!caps.tools?.length) {
+      api.logger.info(
+        `[momo] No integration tools available (integrations: ${caps.integrations?.join(", ") || "none"})`
+      );
+    }
+    if (result.filtered > 0) {
+      api.logger.info(
+        `[momo] ${result.filtered} integration tool(s) hidden by toolPolicy (see \`openclaw momo tools\`)`
+      );
+    }
+  } else if (result.added || result.enabled || result.disabled) {
+    api.logger.info(
+      `[momo] Integration tools refreshed: ${result.added} added (via ${INTEGRATION_DISPATCHER}), ${result.enabled} re-enabled, ${result.disabled} disabled`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Sync integration tools from the cache if another process (`openclaw momo
+ * tools --refresh`) rewrote it since this one last saw it.
+ */
+async function syncChangedCapabilitiesCache(api: OpenClawPluginApi, config: MomoConfig) {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.stat(capabilitiesCachePath(config))).mtimeMs;
+  } catch {
+    return; // No cache yet
+  }
+  if (mtimeMs === capabilitiesCacheMtimeMs) return;
+  capabilitiesCacheMtimeMs = mtimeMs;
+
+  const cached = await loadCachedCapabilities(config);
+  if (!cached?.caps?.success) return;
+  const result = syncIntegrationTools(api, config, cached.caps, { register: false });
+  if (result.added || result.enabled || result.disabled) {
+    api.logger.info(
+      `[momo] Integration tools refreshed from ${capabilitiesCachePath(config)}: ${result.added} added (via ${INTEGRATION_DISPATCHER}), ${result.enabled} re-enabled, ${result.disabled} disabled`
+    );
+  }
+}
+
+/**
+ * Integration tools discovered after startup can't be registered on their
+ * own, so they're reached through one dispatcher tool. It's a factory, so its
+ * description (and the tools it offers) are rebuilt for every agent run.
+ */
+function integrationDispatcher(config: MomoConfig, ctx: OpenClawPluginToolContext) {
+  const offered = [...integrationTools.values()].filter(
+    (entry) =>
+      entry.available &&
+      !entry.registered &&
+      evaluateToolPolicy(config.toolPolicy, entry.tool, ctx?.agentId).allowed
+  );
+  if (offered.length === 0) return null;
+
+  return {
+    name: INTEGRATION_DISPATCHER,
+    label: "Momo Integration Tool",
+    description:
+      "Run an integration tool connected since this session started. Pass its name and parameters:\n" +
+      offered.map((entry) => `- ${entry.def.name}: ${entry.def.description}`).join("\n"),
+    parameters: {
+      type: "object",
+      properties: {
+        tool: {
+          type: "string",
+          enum: offered.map((entry) => entry.def.name),
+          description: "Integration tool to run",
+        },
+        params: {
+          type: "object",
+          description: "Parameters for that tool",
+        },
+      },
+      required: ["tool"],
+    },
+    async execute(toolCallId: string, params: any) {
+      // Resolved at call time — the integration may have gone since the list was built
+      const entry = integrationTools.get(String(params.tool));
+      if (
+        !entry?.available ||
+        !evaluateToolPolicy(config.toolPolicy, entry.tool, ctx?.agentId).allowed
+      ) {
+        return {
+          content: [{ type: "text", text: `Integration tool "${params.tool}" is not available.` }],
+        };
+      }
+      return entry.def.execute(toolCallId, params.params || {}, ctx);
+    },
+  };
+}
+
+// =============================================================================
+// OUTBOX (durable queue for writes that failed while the API was unreachable)
+// =============================================================================
+
+interface OutboxItem {
+  id: string;
+  kind: "extract" | "store" | "lifecycle";
+  /** HTTP method for the replay (default POST) */
+  method?: string;
+  path: string;
+  body: unknown;
+  /** Human-readable description for `openclaw momo outbox` */
+  label: string;
+  /** Auto-capture batch ID, marked extracted once the item is delivered */
+  batchId?: string;
+  /** Sent again on replay, so a write that did land the first time isn't duplicated */
+  idempotencyKey?: string;
+  createdAt: string;
+  attempts: number;
+  status: "pending" | "failed";
+  lastError?: string;
+}
+
+let outboxWrite: Promise<void> = Promise.resolve();
+let outboxDraining = false;
+
+function outboxPath(config: MomoConfig): string {
+  return path.join(config.dataDir, "outbox.json");
+}
+
+/** Always read from disk: the CLI and the gateway both change the outbox */
+async function loadOutbox(config: MomoConfig): Promise<OutboxItem[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(outboxPath(config), "utf8"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Change the outbox on disk. Updates are chained so concurrent saves never
+ * race on the temp file, and each one re-reads the file first so a purge or
+ * retry from the CLI isn't written away by the gateway's stale copy.
+ */
+function updateOutbox<T>(config: MomoConfig, change: (items: OutboxItem[]) => T): Promise<T> {
+  const result = outboxWrite
+    .catch(() => {})
+    .then(async () => {
+      const items = await loadOutbox(config);
+      const value = change(items);
+      const file = outboxPath(config);
+      await fs.mkdir(config.dataDir, { recursive: true });
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(items, null, 2), "utf8");
+      await fs.rename(`${file}.tmp`, file);
+      return value;
+    });
+  outboxWrite = result.then(() => {});
+  return result;
+}
+
+/** ID a queued store is cached under for offline search until it's delivered */
+function localDecisionId(item: OutboxItem): string {
+  return `local:${item.id}`;
+}
+
+async function enqueueOutbox(
+  config: MomoConfig,
+  item: Pick<OutboxItem, "kind" | "method" | "path" | "body" | "label" | "batchId" | "idempotencyKey">
+): Promise<OutboxItem> {
+  const queued: OutboxItem = {
+    ...item,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+  };
+  await updateOutbox(config, (items) => items.push(queued));
+  return queued;
+}
+
+/**
+ * Deliver pending outbox items in order. Stops at the first transient failure
+ * (the API is still down); permanent failures are parked as "failed" for the
+ * CLI to retry or purge. Each item is looked up again before it's sent, so
+ * one purged from the CLI mid-drain is skipped.
+ */
+async function drainOutbox(
+  config: MomoConfig,
+  logger: OpenClawPluginApi["logger"]
+): Promise<{ delivered: number; failed: number; remaining: number }> {
+  let delivered = 0;
+  let failed = 0;
+
+  if (outboxDraining || isCircuitOpen(config)) {
+    return { delivered, failed, remaining: (await loadOutbox(config)).length };
+  }
+
+  outboxDraining = true;
+  try {
+    for (const { id } of await loadOutbox(config)) {
+      const item = (await loadOutbox(config)).find((queued) => queued.id === id);
+      if (item?.status !== "pending") continue;
+
+      try {
+        if (item.kind === "extract") {
+          await extractDecisions(config, item.body as Record<string, unknown>);
+        } else {
+          const data = await momoFetch(config, item.path, {
+            method: item.method || "POST",
+            headers: item.idempotencyKey ? { "Idempotency-Key": item.idempotencyKey } : {},
+            body: JSON.stringify(item.body),
+            retries: 0,
+          });
+          if (item.kind === "store") {
+            await replaceCachedDecisionId(config, localDecisionId(item), data?.ids?.[0] || data?.decisions?.[0]?.id, logger);
+          }
+        }
+        if (item.batchId) await markBatchExtracted(config, item.batchId);
+        await updateOutbox(config, (items) => {
+          const index = items.findIndex((queued) => queued.id === id);
+          if (index >= 0) items.splice(index, 1);
+        });
+        delivered++;
+      } catch (err: any) {
+        const transient = isTransientError(err);
+        await updateOutbox(config, (items) => {
+          const queued = items.find((candidate) => candidate.id === id);
+          if (!queued) return;
+          queued.attempts++;
+          queued.lastError = err.message;
+          if (!transient) queued.status = "failed";
+        });
+        if (transient) break;
+        failed++;
+      }
+    }
+  } finally {
+    outboxDraining = false;
+  }
+
+  if (delivered > 0) {
+    logger.info(`[momo] Outbox: delivered ${delivered} queued write(s)`);
+  }
+  if (failed > 0) {
+    logger.warn(
+      `[momo] Outbox: ${failed} item(s) rejected by the API — see \`openclaw momo outbox\``
+    );
+  }
+
+  return { delivered, failed, remaining: (await loadOutbox(config)).length };
+}
+
+// =============================================================================
+// GRAPH (people / entities / projects / threads around a decision)
+// =============================================================================
+
+const GRAPH_NODE_TYPES = ["decision", "person", "entity", "project", "thread"];
+const GRAPH_NODE_HEADINGS: Record<string, string> = {
+  decision: "Decisions",
+  person: "People",
+  entity: "Entities",
+  project: "Projects",
+  thread: "Threads",
+};
+const GRAPH_EDGE_TYPES = ["INVOLVES", "RELATES_TO", "SAME_THREAD", "MENTIONS"];
+const MAX_GRAPH_HOPS = 3;
+
+function graphQuery(params: {
+  node: string;
+  nodeType?: string;
+  hops?: number;
+  edgeTypes?: string[];
+  nodeTypes?: string[];
+  limit?: number;
+}): string {
+  const qs = new URLSearchParams({
+    node: params.node,
+    hops: String(Math.min(Math.max(Math.floor(params.hops || 1), 1), MAX_GRAPH_HOPS)),
+    limit: String(Math.min(params.limit || 50, 200)),
+  });
+  if (params.nodeType) qs.set("type", params.nodeType);
+  if (params.edgeTypes?.length) qs.set("edgeTypes", params.edgeTypes.join(","));
+  if (params.nodeTypes?.length) qs.set("nodeTypes", params.nodeTypes.join(","));
+  return `/api/ext/graph?${qs.toString()}`;
+}
+
+function graphNodeLabel(node: any): string {
+  const name = node.type === "decision" ? `"${node.title || node.name}"` : node.name || node.title;
+  return `${name} [${node.type}${node.type === "decision" ? ` ${node.id}` : ""}]`;
+}
+
+/**
+ * Format a graph walk as a per-type summary followed by its edges,
+ * grouped by distance from the starting node.
+ */
+function graphLines(data: any): string[] {
+  const nodes = new Map<string, any>((data.nodes || []).map((n: any) => [n.id, n]));
+  if (data.root) nodes.set(data.root.id, data.root);
+  const label = (id: string) => (nodes.has(id) ? graphNodeLabel(nodes.get(id)) : id);
+
+  const byType: Record<string, string[]> = {};
+  for (const node of data.nodes || []) {
+    if (node.id === data.root?.id) continue;
+    (byType[node.type] ||= []).push(node.type === "decision" ? graphNodeLabel(node) : node.name || node.title);
+  }
+
+  const lines: string[] = [];
+  for (const type of GRAPH_NODE_TYPES) {
+    if (byType[type]?.length) {
+      lines.push(`${GRAPH_NODE_HEADINGS[type]} (${byType[type].length}): ${byType[type].join(", ")}`);
+    }
+  }
+
+  const edgesByHop = new Map<number, any[]>();
+  for (const edge of data.edges || []) {
+    const hop = edge.hop || nodes.get(edge.to)?.hops || 1;
+    if (!edgesByHop.has(hop)) edgesByHop.set(hop, []);
+    edgesByHop.get(hop)!.push(edge);
+  }
+  for (const hop of [...edgesByHop.keys()].sort((a, b) => a - b)) {
+    lines.push("", `Hop ${hop}:`);
+    for (const edge of edgesByHop.get(hop)!) {
+      lines.push(`  ${label(edge.from)} —${edge.type}→ ${label(edge.to)}`);
+    }
+  }
+
+  return lines;
+}
+
+// =============================================================================
+// DECISION LIFECYCLE (update, reverse, supersede existing decisions)
+// =============================================================================
+
+const DECISION_TYPES = [
+  "approval", "rejection", "selection", "delegation",
+  "commitment", "direction", "confirmation", "cancellation",
+  "negotiation", "prioritization",
+];
+
+interface LifecycleWrite {
+  label: string;
+  method: "PATCH" | "POST";
+  path: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Send a lifecycle change. Like momo_store, writes that fail because the API
+ * is unreachable are queued in the outbox instead of being lost.
+ */
+async function sendLifecycleWrite(
+  config: MomoConfig,
+  write: LifecycleWrite
+): Promise<{ queued: boolean; data?: any }> {
+  const idempotencyKey = randomUUID();
+  try {
+    const data = await momoFetch(config, write.path, {
+      method: write.method,
+      headers: { "Idempotency-Key": idempotencyKey },
+      body: JSON.stringify(write.body),
+    });
+    return { queued: false, data };
+  } catch (err) {
+    if (!isTransientError(err)) throw err;
+    await enqueueOutbox(config, {
+      kind: "lifecycle",
+      method: write.method,
+      path: write.path,
+      body: write.body,
+      label: write.label,
+      idempotencyKey,
+    });
+    return { queued: true };
+  }
+}
+
+async function updateDecisionWrite(
+  config: MomoConfig,
+  id: string,
+  updates: Record<string, unknown>
+): Promise<LifecycleWrite> {
+  return {
+    label: `update ${id}`,
+    method: "PATCH",
+    path: `/api/ext/decisions/${encodeURIComponent(id)}`,
+    body: { updates: await sealDecision(config, updates) },
+  };
+}
+
+function reverseDecisionWrite(
+  id: string,
+  status: "reversed" | "revoked",
+  reason?: string
+): LifecycleWrite {
+  return {
+    label: `${status === "revoked" ? "revoke" : "reverse"} ${id}`,
+    method: "POST",
+    path: `/api/ext/decisions/${encodeURIComponent(id)}/reverse`,
+    body: { status, reason: reason || "" },
+  };
+}
+
+/**
+ * Link `supersededBy` (an existing decision) or a brand-new decision as the
+ * replacement for `id`. The old decision is marked superseded server-side.
+ */
+async function supersedeDecisionWrite(
+  config: MomoConfig,
+  id: string,
+  replacement: { supersededBy?: string; decision?: Record<string, unknown> }
+): Promise<LifecycleWrite> {
+  return {
+    label: `supersede ${id}`,
+    method: "POST",
+    path: `/api/ext/decisions/${encodeURIComponent(id)}/supersede`,
+    body: replacement.decision
+      ? { decision: await sealDecision(config, { source: "openclaw", ...replacement.decision }) }
+      : { supersededBy: replacement.supersededBy },
+  };
+}
+
+/**
+ * Format a full decision record (from /api/ext/decisions/:id) as plain lines,
+ * shared by momo_get and `openclaw momo show`. Title is left to the caller.
+ */
+function decisionDetailLines(d: any): string[] {
+  const lines: string[] = [];
+  const ref = (x: any) =>
+    typeof x === "string" ? x : `${x.title ? `"${x.title}" ` : ""}(${x.id}${x.sourceDate ? `, ${formatDate(x.sourceDate)}` : ""})`;
+  const person = (p: any) =>
+    typeof p === "string" ? p : [p.name, p.role && `(${p.role})`, p.email && `<${p.email}>`].filter(Boolean).join(" ");
+  const named = (x: any) => (typeof x === "string" ? x : x.name || x.title || x.id);
+
+  lines.push(
+    `ID: ${d.id} | Status: ${d.status || "decided"} | Type: ${d.decisionType} | Confidence: ${d.confidence}`
+  );
+  const when = d.sourceDate ? `${new Date(d.sourceDate).toISOString().slice(0, 10)} (${formatDate(d.sourceDate)})` : "unknown date";
+  lines.push(`Source: ${sourceLabel(d.source)}, ${when}`);
+  if (d.sourceUrl) lines.push(`Original: ${d.sourceUrl}`);
+
+  if (d.summary) lines.push("", d.summary);
+  if (d.rationale) lines.push("", `Rationale: ${d.rationale}`);
+
+  if (d.involvedPersons?.length) lines.push("", `People: ${d.involvedPersons.map(person).join(", ")}`);
+  if (d.relatedEntities?.length) lines.push(`Entities: ${d.relatedEntities.map(named).join(", ")}`);
+  if (d.relatedProjects?.length) lines.push(`Projects: ${d.relatedProjects.map(named).join(", ")}`);
+
+  // Supersession chain — both directions
+  const supersedes = [].concat(d.supersedes || []);
+  const supersededBy = [].concat(d.supersededBy || []);
+  if (supersedes.length || supersededBy.length) lines.push("");
+  if (supersedes.length) lines.push(`Supersedes: ${supersedes.map(ref).join(", ")}`);
+  if (supersededBy.length) lines.push(`Superseded by: ${supersededBy.map(ref).join(", ")}`);
+
+  if (d.fullContext) lines.push("", "Full context:", ...String(d.fullContext).split("\n").map((l) => `  ${l}`));
+
+  return lines;
+}
+
+/**
+ * Collect only the decision fields a caller actually set.
+ */
+function pickDecisionFields(params: Record<string, any>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const key of ["title", "summary", "rationale", "decisionType", "confidence", "status", "involvedPersons"]) {
+    if (params[key] !== undefined && params[key] !== "") fields[key] = params[key];
+  }
+  return fields;
+}
+
+// =============================================================================
+// SEARCH FILTERS (shared by momo_search and `openclaw momo search`)
+// =============================================================================
+
+const MEMORY_SOURCES = ["gmail", "github", "notion", "slack", "discord", "openclaw"];
+
+const DECISION_STATUSES = ["decided", "pending", "reversed", "revoked", "superseded"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tool schema for the filters — spread into each tool that searches
+const SEARCH_FILTER_PROPERTIES = {
+  sources: {
+    type: "array",
+    items: { type: "string", enum: MEMORY_SOURCES },
+    description: "Only these sources",
+  },
+  since: {
+    type: "string",
+    description: "Start date: ISO date (2026-01-15) or relative (7d, 2w, 3m, 1y, today, yesterday, this week, last week, this month, last month)",
+  },
+  until: {
+    type: "string",
+    description: "End date (same formats as since)",
+  },
+  decisionTypes: {
+    type: "array",
+    items: { type: "string", enum: DECISION_TYPES },
+    description: "Only these decision types",
+  },
+  minConfidence: {
+    type: "string",
+    enum: ["low", "medium", "high"],
+    description: "Confidence floor (medium = medium + high)",
+  },
+  status: {
+    type: "array",
+    items: { type: "string", enum: DECISION_STATUSES },
+    description: "Only these statuses — e.g. [\"decided\", \"pending\"] to exclude reversed/superseded",
+  },
+  person: {
+    type: "string",
+    description: "Involved person (name or email)",
+  },
+  project: {
+    type: "string",
+    description: "Related project",
+  },
+  entity: {
+    type: "string",
+    description: "Related entity (company, product, service)",
+  },
+  sort: {
+    type: "string",
+    enum: ["relevance", "recency"],
+    description: "Result order (default relevance)",
+  },
+};
+
+/**
+ * Resolve a date expression to a range, in local time. Durations ("7d") and
+ * timestamps only set a start; named periods ("last month") set both ends,
+ * and a plain date covers that whole day (`day`).
+ */
+function parseDateExpression(expr: string, now = new Date()): { start: Date; end?: Date; day?: boolean } | null {
+  const text = expr.trim().toLowerCase();
+  // Calendar arithmetic, not n * DAY_MS — a day across a DST change isn't 24 hours
+  const daysBefore = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() - n);
+  const today = daysBefore(now, 0);
+
+  const duration = text.match(/^(\d+)\s*(d|w|m|y)$/);
+  if (duration) {
+    const n = Number(duration[1]);
+    const start = new Date(today);
+    if (duration[2] === "d") start.setDate(start.getDate() - n);
+    if (duration[2] === "w") start.setDate(start.getDate() - n * 7);
+    if (duration[2] === "m") start.setMonth(start.getMonth() - n);
+    if (duration[2] === "y") start.setFullYear(start.getFullYear() - n);
+    return { start };
+  }
+
+  const weekStart = daysBefore(today, (today.getDay() + 6) % 7); // Monday
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  switch (text) {
+    case "today":
+      return { start: today };
+    case "yesterday":
+      return { start: daysBefore(today, 1), end: today };
+    case "this week":
+      return { start: weekStart };
+    case "last week":
+      return { start: daysBefore(weekStart, 7), end: weekStart };
+    case "this month":
+      return { start: monthStart };
+    case "last month":
+      return { start: new Date(today.getFullYear(), today.getMonth() - 1, 1), end: monthStart };
+  }
+
+  // Dates are local days like the named periods; "2024-03-05" would otherwise parse as UTC midnight
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const date = iso ? new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : new Date(expr);
+  if (Number.isNaN(date.getTime())) return null;
+  if (text.includes(":")) return { start: date };
+  const end = new Date(date);
+  end.setDate(end.getDate() + 1);
+  return { start: date, end, day: true };
+}
+
+/**
+ * Turn filter params into query-string fields for the search endpoints.
+ * Throws on an unparseable date so the caller can report it.
+ */
+function searchFilterParams(params: Record<string, any>): Record<string, string> {
+  const out: Record<string, string> = {};
+  const list = (value: unknown) =>
+    (Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [])
+      .map((v) => String(v).trim())
+      .filter(Boolean);
+
+  const sources = list(params.sources);
+  if (params.source && !sources.includes(params.source)) sources.push(params.source);
+  // A single source goes out as `source`, which every API version understands
+  if (sources.length === 1) out.source = sources[0];
+  else if (sources.length) out.sources = sources.join(",");
+
+  if (params.since) {
+    const range = parseDateExpression(params.since);
+    if (!range) throw new Error(`Can't parse since date "${params.since}"`);
+    out.since = range.start.toISOString();
+    // "since last week" is that week; "since 2024-03-05" runs to now
+    if (range.end && !range.day && !params.until) out.until = range.end.toISOString();
+  }
+  if (params.until) {
+    const range = parseDateExpression(params.until);
+    if (!range) throw new Error(`Can't parse until date "${params.until}"`);
+    // A named period or a date as the end ("until last week", "until 2024-03-05") includes all of it
+    out.until = (range.end || range.start).toISOString();
+  }
+
+  const types = list(params.decisionTypes);
+  if (types.length) out.decisionTypes = types.join(",");
+  const statuses = list(params.status);
+  if (statuses.length) out.status = statuses.join(",");
+
+  for (const key of ["minConfidence", "person", "project", "entity", "sort", "updatedSince"]) {
+    if (params[key]) out[key] = String(params[key]);
+  }
+
+  return out;
+}
+
+/**
+ * Build the /api/ext/search path for a query plus filters.
+ */
+function searchPath(
+  query: string,
+  limit: number,
+  filters: Record<string, any>,
+  cursor?: string
+): string {
+  const qs = new URLSearchParams({
+    query,
+    limit: String(limit),
+    ...searchFilterParams(filters),
+    ...cursorParams(cursor),
+  });
+  return `/api/ext/search?${qs.toString()}`;
+}
+
+// =============================================================================
+// PAGINATION
+// =============================================================================
+//
+// List endpoints return an opaque `nextCursor` when there is more. Older API
+// versions only report totals, so we fall back to numeric offset cursors —
+// both kinds go back to the API the same way.
+
+const MAX_PAGES = 500; // Runaway guard for --all style loops
+const RECORD_FETCH_CONCURRENCY = 5;
+
+function cursorParams(cursor?: string): Record<string, string> {
+  if (!cursor) return {};
+  return /^\d+$/.test(cursor) ? { cursor, offset: cursor } : { cursor };
+}
+
+/**
+ * Cursor for the page after this one, or null on the last page.
+ */
+function nextPageCursor(data: any, cursor: string | undefined, count: number): string | null {
+  if (data?.nextCursor) return String(data.nextCursor);
+  const offset = cursor && /^\d+$/.test(cursor) ? Number(cursor) : 0;
+  const total = data?.total ?? data?.totalResults ?? data?.totalDecisions;
+  if (count > 0 && (data?.hasMore || (typeof total === "number" && total > offset + count))) {
+    return String(offset + count);
+  }
+  return null;
+}
+
+function nextPageHint(cursor: string | null): string {
+  return cursor ? `\n\nMore results available — call again with cursor "${cursor}".` : "";
+}
+
+/**
+ * One page of a summary. Sources are listed side by side, so a single cursor
+ * advances every source's list together. `firstPage` is the same summary
+ * without a cursor, to catch servers that ignore the offset.
+ */
+function summaryPage(data: any, cursor: string | undefined, limit: number, firstPage?: any) {
+  const offset = cursor && /^\d+$/.test(cursor) ? Number(cursor) : 0;
+  const sources = Object.entries(data?.bySource || {}) as Array<[string, any]>;
+  const ids = (list: any[] | undefined) => JSON.stringify((list || []).map((d) => d.id ?? d.title));
+  // Honouring the limit but not the offset means every page is page 1 again
+  const repeated =
+    firstPage !== undefined &&
+    offset > 0 &&
+    sources.length > 0 &&
+    sources.every(
+      ([source, info]) =>
+        (info.decisions || []).length <= limit &&
+        ids(info.decisions) === ids(firstPage?.bySource?.[source]?.decisions)
+    );
+  const more = !repeated && sources.some(([, info]) => (info.count || 0) > offset + limit);
+  return {
+    repeated,
+    // Servers that ignore paging entirely send the whole list — slice it here instead
+    decisions: (info: any): any[] => {
+      if (repeated) return [];
+      const list = info.decisions || [];
+      const whole = list.length > limit || (offset > 0 && list.length === info.count);
+      return whole ? list.slice(offset, offset + limit) : list;
+    },
+    // How many of a source's decisions come after this page
+    remaining: (info: any, shown: number): number => Math.max(0, (info.count || 0) - offset - shown),
+    nextCursor: repeated ? null : data?.nextCursor ? String(data.nextCursor) : more ? String(offset + limit) : null,
+  };
+}
+
+/**
+ * Fetch a summary page. Offset cursors are checked against page 1, which
+ * costs a second request but keeps `--cursor` from looping forever on
+ * servers that ignore it.
+ */
+async function fetchSummaryPage(config: MomoConfig, period: string, limit: number, cursor?: string) {
+  const fetchPage = (pageCursor?: string) =>
+    momoFetch(
+      config,
+      `/api/ext/summary?${new URLSearchParams({ period, limit: String(limit), ...cursorParams(pageCursor) }).toString()}`
+    );
+  const data = await fetchPage(cursor);
+  const offsetCursor = cursor && /^\d+$/.test(cursor) && Number(cursor) > 0;
+  const firstPage = offsetCursor && !data.nextCursor ? await fetchPage() : undefined;
+  return { data, page: summaryPage(data, cursor, limit, firstPage) };
+}
+
+/**
+ * Walk every page of a search, yielding each page's results.
+ */
+async function* searchPages(
+  config: MomoConfig,
+  query: string,
+  pageSize: number,
+  filters: Record<string, any>,
+  cursor?: string
+): AsyncGenerator<any[]> {
+  const seen = new Set<string>();
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await momoFetch(config, searchPath(query, pageSize, filters, cursor));
+    const results = data.results || [];
+    if (results.length) yield results;
+    const next = nextPageCursor(data, cursor, results.length);
+    if (!next || seen.has(next)) return;
+    seen.add(next);
+    cursor = next;
+  }
+}
+
+/**
+ * Every decision matching a search, as full records. Search rows are
+ * trimmed (no fullContext, sources, ...), so each hit is fetched by ID.
+ * Decisions deleted between the search and the fetch are skipped.
+ */
+async function* decisionRecords(
+  config: MomoConfig,
+  query: string,
+  filters: Record<string, any>,
+  fetchOptions: MomoFetchOptions = {}
+): AsyncGenerator<any[]> {
+  const seen = new Set<string>();
+  for await (const results of searchPages(config, query, 50, filters)) {
+    const ids = results.map((r: any) => r.id).filter((id: string) => id && !seen.has(id));
+    ids.forEach((id: string) => seen.add(id));
+    const records: any[] = [];
+    for (let i = 0; i < ids.length; i += RECORD_FETCH_CONCURRENCY) {
+      const fetched = await Promise.all(
+        ids.slice(i, i + RECORD_FETCH_CONCURRENCY).map(async (id: string) => {
+          try {
+            return (await momoFetch(config, `/api/ext/decisions/${encodeURIComponent(id)}`, fetchOptions)).decision;
+          } catch (err) {
+            if (err instanceof MomoApiError && err.status === 404) return undefined;
+            throw err;
+          }
+        })
+      );
+      records.push(...fetched.filter(Boolean));
+    }
+    if (records.length) yield records;
+  }
+}
+
+// =============================================================================
+// SEARCH CACHE (local fallback while the API is unreachable)
+// =============================================================================
+//
+// Every decision we retrieve or store is kept in `<dataDir>/search-cache.json`
+// (sealed with the vault when it is on). When a search fails for a transient
+// reason, results are ranked locally with BM25 over titles, summaries and
+// people, and shown as stale.
+
+interface CachedDecision {
+  decision: any;
+  cachedAt: string;
+}
+
+const CACHE_SAVE_DELAY_MS = 1_000;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+let searchCache: Map<string, CachedDecision> | null = null;
+let searchCacheSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+function searchCacheFile(config: MomoConfig): string {
+  return path.join(config.dataDir, "search-cache.json");
+}
+
+async function loadSearchCache(config: MomoConfig): Promise<Map<string, CachedDecision>> {
+  if (searchCache) return searchCache;
+  searchCache = new Map();
+  try {
+    const raw: CachedDecision[] = JSON.parse(await fs.readFile(searchCacheFile(config), "utf8"));
+    for (const entry of raw) {
+      try {
+        searchCache.set(entry.decision.id, {
+          ...entry,
+          decision: await openVault(config, entry.decision, { strict: true }),
+        });
+      } catch {
+        // Sealed with a passphrase we no longer have — drop it
+      }
+    }
+  } catch {
+    // No cache yet
+  }
+  pruneSearchCache(config, searchCache);
+  return searchCache;
+}
+
+/**
+ * Drop entries past retention, then the least recently cached beyond the size cap.
+ */
+function pruneSearchCache(config: MomoConfig, cache: Map<string, CachedDecision>) {
+  const cutoff = Date.now() - config.searchCacheRetentionDays * DAY_MS;
+  for (const [id, entry] of cache) {
+    if (Date.parse(entry.cachedAt) < cutoff) cache.delete(id);
+  }
+  // Map keeps insertion order and re-cached entries are re-inserted, so the oldest come first
+  for (const id of cache.keys()) {
+    if (cache.size <= config.searchCacheMaxEntries) break;
+    cache.delete(id);
+  }
+}
+
+async function saveSearchCache(config: MomoConfig) {
+  if (!searchCache) return;
+  const entries = await Promise.all(
+    [...searchCache.values()].map(async (e) => ({ ...e, decision: await sealDecision(config, e.decision) }))
+  );
+  await fs.mkdir(config.dataDir, { recursive: true });
+  await fs.writeFile(`${searchCacheFile(config)}.tmp`, JSON.stringify(entries), "utf8");
+  await fs.rename(`${searchCacheFile(config)}.tmp`, searchCacheFile(config));
+}
+
+/**
+ * Remember decisions for offline search. Saves are batched, so a burst of
+ * searches writes the file once.
+ */
+async function cacheDecisions(config: MomoConfig, decisions: any[], logger?: OpenClawPluginApi["logger"]) {
+  if (!config.searchCache || !decisions?.length) return;
+  const cache = await loadSearchCache(config);
+  const now = new Date().toISOString();
+  for (const d of decisions) {
+    if (!d?.id) continue;
+    const previous = cache.get(d.id)?.decision;
+    cache.delete(d.id);
+    // Search results are leaner than full records — keep fields we already had
+    cache.set(d.id, { decision: { ...previous, ...d }, cachedAt: now });
+  }
+  pruneSearchCache(config, cache);
+  scheduleSearchCacheSave(config, logger);
+}
+
+/**
+ * Move a cached decision to the ID Momo gave it, or drop it when Momo sent
+ * none. For stores that waited in the outbox under a `local:` ID.
+ */
+async function replaceCachedDecisionId(
+  config: MomoConfig,
+  localId: string,
+  id: string | undefined,
+  logger?: OpenClawPluginApi["logger"]
+) {
+  if (!config.searchCache) return;
+  const cache = await loadSearchCache(config);
+  const entry = cache.get(localId);
+  if (!entry) return;
+  cache.delete(localId);
+  if (id) await cacheDecisions(config, [{ ...entry.decision, id }], logger);
+  else scheduleSearchCacheSave(config, logger);
+}
+
+function scheduleSearchCacheSave(config: MomoConfig, logger?: OpenClawPluginApi["logger"]) {
+  if (searchCacheSaveTimer) return;
+  searchCacheSaveTimer = setTimeout(() => {
+    searchCacheSaveTimer = undefined;
+    saveSearchCache(config).catch((err) => logger?.warn("[momo] Search cache save failed:", err));
+  }, CACHE_SAVE_DELAY_MS);
+  searchCacheSaveTimer.unref?.();
+}
+
+async function flushSearchCache(config: MomoConfig) {
+  if (searchCacheSaveTimer) {
+    clearTimeout(searchCacheSaveTimer);
+    searchCacheSaveTimer = undefined;
+    await saveSearchCache(config);
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 1);
+}
+
+/**
+ * Apply the resolved search filters (see searchFilterParams) to a cached decision.
+ */
+function matchesSearchFilters(d: any, filters: Record<string, string>): boolean {
+  const inList = (key: string, value: unknown) =>
+    !filters[key] || filters[key].split(",").includes(String(value ?? ""));
+  const has = (list: any[] | undefined, needle: string) =>
+    (list || []).some((x) => JSON.stringify(x).toLowerCase().includes(needle.toLowerCase()));
+  const time = d.sourceDate ? Date.parse(d.sourceDate) : NaN;
+  const confidenceRank: Record<string, number> = { low: 0, medium: 1, high: 2 };
+
+  return (
+    inList("source", d.source) &&
+    inList("sources", d.source) &&
+    inList("decisionTypes", d.decisionType) &&
+    inList("status", d.status || "decided") &&
+    (!filters.minConfidence || (confidenceRank[d.confidence] ?? 1) >= confidenceRank[filters.minConfidence]) &&
+    (!filters.since || time >= Date.parse(filters.since)) &&
+    (!filters.until || time < Date.parse(filters.until)) &&
+    (!filters.person || has(d.involvedPersons, filters.person)) &&
+    (!filters.project || has(d.relatedProjects, filters.project)) &&
+    (!filters.entity || has(d.relatedEntities, filters.entity))
+  );
+}
+
+/**
+ * Rank cached decisions against a query with BM25. Titles count twice.
+ */
+async function searchCachedDecisions(
+  config: MomoConfig,
+  query: string,
+  limit: number,
+  filters: Record<string, any> = {}
+): Promise<Array<{ decision: any; cachedAt: string; score: number }>> {
+  const cache = await loadSearchCache(config);
+  const resolved = searchFilterParams(filters);
+  const docs = [...cache.values()]
+    .filter((e) => matchesSearchFilters(e.decision, resolved))
+    .map((e) => {
+      const d = e.decision;
+      const people = (d.involvedPersons || []).map(exportName).join(" ");
+      return { entry: e, tokens: tokenize(`${d.title} ${d.title} ${d.summary || ""} ${people}`) };
+    });
+  if (!docs.length) return [];
+
+  const terms = [...new Set(tokenize(query))];
+  const avgLength = docs.reduce((sum, doc) => sum + doc.tokens.length, 0) / docs.length;
+  const docFreq = new Map(terms.map((t) => [t, docs.filter((doc) => doc.tokens.includes(t)).length]));
+
+  const time = (d: any) => (d.sourceDate ? Date.parse(d.sourceDate) : 0);
+  const scored = docs.map(({ entry, tokens }) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = tokens.filter((t) => t === term).length;
+      if (!tf) continue;
+      const df = docFreq.get(term)!;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / avgLength));
+    }
+    return { ...entry, score };
+  });
+
+  // A wildcard or empty query lists everything; otherwise only matches
+  const matched = terms.length ? scored.filter((r) => r.score > 0) : scored;
+  const byRecency = filters.sort === "recency" || !terms.length;
+  return matched
+    .sort((a, b) => (byRecency ? time(b.decision) - time(a.decision) : b.score - a.score))
+    .slice(0, limit);
+}
+
+/**
+ * Search the API and cache the results; when the API is unreachable, fall
+ * back to the local cache. `stale` is set when the results came from cache.
+ */
+async function searchWithFallback(
+  config: MomoConfig,
+  query: string,
+  limit: number,
+  filters: Record<string, any>,
+  options: { cursor?: string; fetch?: MomoFetchOptions; logger?: OpenClawPluginApi["logger"] } = {}
+): Promise<{ data: any; stale: boolean; cachedAt?: string }> {
+  const searchUrl = searchPath(query, limit, filters, options.cursor);
+  try {
+    const data = await momoFetch(config, searchUrl, options.fetch);
+    await cacheDecisions(config, data.results || [], options.logger);
+    return { data, stale: false };
+  } catch (err) {
+    // Later pages only exist on the server
+    if (!config.searchCache || !isTransientError(err) || options.cursor) throw err;
+    const cached = await searchCachedDecisions(config, query, limit, filters);
+    if (!cached.length) throw err;
+    const oldest = cached.map((c) => c.cachedAt).sort()[0];
+    return {
+      data: { success: true, results: cached.map((c) => c.decision) },
+      stale: true,
+      cachedAt: oldest,
+    };
+  }
+}
+
+function staleNotice(cachedAt?: string): string {
+  return (
+    `⚠ Momo is unreachable — these are cached results (stale${cachedAt ? `, cached ${formatDate(cachedAt)}` : ""}). ` +
+    "They may be out of date or missing newer decisions."
+  );
+}
+
+// =============================================================================
+// CITATIONS ([m:<id>] references in recalled context)
+// =============================================================================
+
+// Brackets required, so "m:ss" in a timestamp or "team:core" in prose isn't taken for a citation
+const CITATION_PATTERN = /\[m:([A-Za-z0-9_-]+)\]/g;
+
+const RECALL_CITATION_HINT =
+  "Cite a memory as [m:<id>] when you rely on it; momo_cite resolves a citation to its original source.";
+
+function citation(d: any): string {
+  return `[m:${d.id}]`;
+}
+
+/**
+ * One citable line: "[m:abc123] Title (Gmail, 2026-01-15, https://...)".
+ */
+function citationLine(d: any): string {
+  const date = d.sourceDate ? new Date(d.sourceDate).toISOString().slice(0, 10) : "undated";
+  const where = [sourceLabel(d.source || "unknown"), date, d.sourceUrl].filter(Boolean).join(", ");
+  return `${d.id ? `${citation(d)} ` : ""}${d.title} (${where})`;
+}
+
+/**
+ * Decision IDs cited in free text. A bare ID counts as one citation.
+ */
+function parseCitations(text: string): string[] {
+  const ids = [...text.matchAll(CITATION_PATTERN)].map((m) => m[1]);
+  if (ids.length) return [...new Set(ids)];
+  // A lone ID, with or without its m: prefix
+  const bare = text.trim().match(/^(?:m:)?([A-Za-z0-9_-]+)$/);
+  return bare ? [bare[1]] : [];
+}
+
+// =============================================================================
+// AUTO-RECALL (query from recent turns, per-session dedupe, relevance floor)
+// =============================================================================
+
+const RECALL_LIMIT = 5;
+const CHARS_PER_TOKEN = 4; // Rough, but good enough for a budget
+const RECALL_FETCH_LIMIT = 12; // Headroom for results dropped as repeats or low-scoring
+const RECALL_QUERY_MAX_CHARS = 500;
+const RECALL_EARLIER_TURN_CHARS = 200;
+const RECALL_MAX_SESSIONS = 200;
+
+// Session key → decision IDs already injected in that session (oldest session first)
+const recalledBySession = new Map<string, Set<string>>();
+
+function messageText(msg: any, separator = " "): string {
+  if (typeof msg?.content === "string") return msg.content;
+  if (Array.isArray(msg?.content)) {
+    return msg.content
+      .filter((c: any) => c.type === "text")
+      .map((c: any) => c.text)
+      .join(separator);
+  }
+  return "";
+}
+
+/**
+ * Build a recall query from the last `windowTurns` user turns and the
+ * assistant replies between them. The newest message leads so it survives
+ * the length cap; earlier turns are clipped and only add context for
+ * follow-ups like "and what about the budget for that?".
+ */
+function buildRecallQuery(messages: any[], windowTurns: number): string {
+  const turns: string[] = [];
+  let userTurns = 0;
+  for (let i = messages.length - 1; i >= 0 && userTurns < Math.max(1, windowTurns); i--) {
+    const msg = messages[i];
+    if (msg.role !== "user" && msg.role !== "assistant") continue;
+    const text = messageText(msg).replace(/\s+/g, " ").trim();
+    if (!text) continue;
+    if (msg.role === "user") userTurns++;
+    // Nothing before the first user message counts
+    if (!turns.length && msg.role !== "user") continue;
+    turns.push(turns.length ? text.slice(0, RECALL_EARLIER_TURN_CHARS) : text);
+  }
+  return turns.join("\n").slice(0, RECALL_QUERY_MAX_CHARS);
+}
+
+function relevanceScore(result: any): number | undefined {
+  return typeof result?.score === "number" ? result.score : undefined;
+}
+
+function recalledIds(sessionKey: string): Set<string> {
+  let ids = recalledBySession.get(sessionKey);
+  if (ids) {
+    // Re-insert so the most recently active sessions are evicted last
+    recalledBySession.delete(sessionKey);
+  } else {
+    ids = new Set();
+  }
+  recalledBySession.set(sessionKey, ids);
+  for (const key of recalledBySession.keys()) {
+    if (recalledBySession.size <= RECALL_MAX_SESSIONS) break;
+    recalledBySession.delete(key);
+  }
+  return ids;
+}
+
+/**
+ * Turn recall candidates into the injected block text, or null when there is
+ * nothing worth injecting. Decisions already shown in this session are
+ * skipped or, with `recallRepeats: "reference"`, listed by title and ID only.
+ */
+function formatRecall(config: MomoConfig, results: any[], seen: Set<string>, minScore: number): string | null {
+  // The context endpoint already picked the decisions; the floor only trims ones that carry a score
+  const relevant = results.filter((r) => (relevanceScore(r) ?? minScore) >= minScore);
+  const fresh = relevant.filter((r) => !r.id || !seen.has(r.id)).slice(0, RECALL_LIMIT);
+  const repeats = relevant.filter((r) => r.id && seen.has(r.id)).slice(0, RECALL_LIMIT);
+
+  const lines: string[] = [];
+  let budget = config.recallMaxTokens * CHARS_PER_TOKEN;
+  for (const d of fresh) {
+    let line = `- ${citationLine(d)}`;
+    if (d.summary) line += `: ${d.summary}`;
+    if (d.involvedPersons?.length) line += ` — ${d.involvedPersons.map(exportName).join(", ")}`;
+    // Always room for the best match, clipped if it alone is over budget
+    if (lines.length && line.length > budget) break;
+    lines.push(line.slice(0, Math.max(budget, 200)));
+    budget -= line.length;
+    if (d.id) seen.add(d.id);
+  }
+  if (config.recallRepeats === "reference" && repeats.length) {
+    lines.push(`Already shown earlier in this conversation: ${repeats.map((d) => `"${d.title}" ${citation(d)}`).join(", ")}`);
+  }
+
+  return lines.length ? lines.join("\n") : null;
+}
+
+// ---- Recall gate ------------------------------------------------------------
+//
+// Decides whether a message is worth a recall lookup. Casual patterns match
+// at the start of the (lowercased) message; keywords and triggers anywhere,
+// as whole words. A trailing `*` makes a keyword a stem ("decid*" matches
+// "decided"). Korean and Japanese aren't written with spaces between words,
+// so keywords in those scripts match anywhere.
+// Triggers force a recall in "auto" mode and are the only way in "explicit".
+
+interface RecallLanguagePack {
+  casual: string[]; // Regex alternatives, anchored at the start
+  keywords: string[];
+  triggers: string[];
+}
+
+const UNSPACED_SCRIPT = /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+const RECALL_LANGUAGE_PACKS: Record<string, RecallLanguagePack> = {
+  en: {
+    casual: [
+      "hi|hey|hello|yo|sup|howdy|hiya|heya",
+      "good\\s*(morning|afternoon|evening|night)",
+      "thanks|thank you|thx|ty",
+      "ok|okay|sure|got it|sounds good|cool|nice|great|awesome|perfect",
+      "bye|goodbye|see you|later|gn|ttyl",
+      "yes|no|yep|nope|yeah|nah",
+      "lol|lmao|haha|heh",
+      "how are you|what's up|whats up|wassup",
+    ],
+    keywords: [
+      "decid*", "decision*", "chose", "choice*", "agreed", "approved",
+      "committed", "plan*", "strateg*", "priorit*", "delegat*",
+      "what did", "when did", "who said", "remember*", "last time",
+      "previously", "before", "history", "recap*", "summar*",
+      "meeting*", "discuss*", "update*", "status", "progress",
+      "deadline*", "schedul*", "budget*", "roadmap*", "milestone*",
+    ],
+    triggers: ["@momo", "/recall", "do you remember", "what did we decide"],
+  },
+  ko: {
+    casual: [
+      "안녕(하세요|하십니까)?|하이|ㅎㅇ",
+      "감사(합니다|해요)?|고마워(요)?|고맙습니다",
+      "네|넵|응|ㅇㅇ|ㅇㅋ|오케이|알겠(어요|습니다)|좋아(요)?|굿",
+      "ㅋㅋ+|ㅎㅎ+",
+      "잘 ?가(요)?|수고(하셨습니다|하세요|했어요)?",
+    ],
+    keywords: [
+      "결정", "정했", "합의", "승인", "계획", "전략", "우선순위", "위임",
+      "지난번", "저번", "예전에", "이전에", "기억", "회의", "논의", "미팅",
+      "일정", "예산", "마감", "로드맵", "진행", "현황", "누가", "언제",
+    ],
+    triggers: ["기억나", "기억해", "뭐로 결정", "모모"],
+  },
+  es: {
+    casual: [
+      "hola|buenas|buenos d[ií]as|buenas (tardes|noches)",
+      "gracias|muchas gracias",
+      "vale|ok|de acuerdo|perfecto|genial|claro|entendido",
+      "adi[oó]s|hasta (luego|pronto|mañana)|chao",
+      "s[ií]|no",
+      "jaja+|jeje+",
+      "qu[eé] tal|c[oó]mo est[aá]s",
+    ],
+    keywords: [
+      "decid*", "decisi*", "acord*", "aprob*", "plan*", "estrategia*", "priori*",
+      "qué dijimos", "cuándo", "quién dijo", "recuerd*", "la última vez", "antes",
+      "reuni*", "discut*", "presupuesto*", "plazo*", "fecha límite", "hoja de ruta",
+      "estado", "progreso",
+    ],
+    triggers: ["te acuerdas", "recuerdas", "qué decidimos"],
+  },
+  de: {
+    casual: [
+      "hallo|hi|moin|servus|guten (morgen|tag|abend)",
+      "danke|vielen dank",
+      "ok|okay|alles klar|passt|super|prima",
+      "tsch[üu]ss|bis (bald|später|morgen)",
+      "ja|nein|jo|n[eö]",
+      "haha",
+    ],
+    keywords: [
+      "entschied*", "entscheid*", "beschlossen", "vereinbart", "genehmigt", "plan*",
+      "strategie*", "priorit*", "besprochen", "besprechung*", "meeting*", "budget*",
+      "frist*", "deadline*", "roadmap*", "erinner*", "letztes mal", "stand", "fortschritt*",
+    ],
+    triggers: ["erinnerst du dich", "was haben wir entschieden"],
+  },
+  fr: {
+    casual: [
+      "bonjour|salut|coucou|bonsoir",
+      "merci|merci beaucoup",
+      "ok|d'accord|parfait|super|g[ée]nial|entendu",
+      "au revoir|[àa] plus|[àa] demain|bonne (journ[ée]e|soir[ée]e)",
+      "oui|non|ouais",
+      "mdr|haha",
+      "[çc]a va",
+    ],
+    keywords: [
+      "décid*", "décision*", "convenu*", "approuv*", "plan*", "stratégie*", "priorit*",
+      "réunion*", "discuté*", "budget*", "échéance*", "délai*", "feuille de route",
+      "souviens", "la dernière fois", "avancement", "statut*",
+    ],
+    triggers: ["tu te souviens", "qu'avons-nous décidé", "qu'est-ce qu'on a décidé"],
+  },
+  ja: {
+    casual: [
+      "こんにちは|おはよう|こんばんは|やあ",
+      "ありがとう(ございます)?|どうも|サンキュー",
+      "了解|りょうかい|おけ|オッケー|はい|いいえ|うん|ううん",
+      "w+|ｗ+|笑",
+      "またね|じゃあね|おやすみ(なさい)?|お疲れ(様です|さま)?",
+    ],
+    keywords: [
+      "決定", "決め", "合意", "承認", "計画", "戦略", "優先", "前回", "以前",
+      "覚え", "会議", "議論", "予算", "締め切り", "期限", "ロードマップ",
+      "進捗", "状況", "誰が", "いつ",
+    ],
+    triggers: ["覚えてる", "思い出して", "何を決めた"],
+  },
+};
+
+interface RecallGate {
+  mode: "auto" | "always" | "explicit";
+  casual: RegExp[];
+  keywords: RegExp[];
+  triggers: RegExp[];
+  minChars: number;
+  shortChars: number;
+}
+
+/**
+ * Compile the recall gate from the enabled language packs plus any custom
+ * patterns, keywords and triggers in the config.
+ */
+function buildRecallGate(config: MomoConfig, logger: OpenClawPluginApi["logger"]): RecallGate {
+  const packs: RecallLanguagePack[] = [];
+  for (const lang of config.recallLanguages) {
+    const pack = RECALL_LANGUAGE_PACKS[lang.toLowerCase()];
+    if (pack) packs.push(pack);
+    else logger.warn(`[momo] Unknown recall language pack "${lang}" (available: ${Object.keys(RECALL_LANGUAGE_PACKS).join(", ")})`);
+  }
+
+  // Packs are matched case-insensitively and stop at a word boundary in any script
+  const casual = packs.flatMap((p) => p.casual.map((alts) => new RegExp(`^(${alts})(?![\\p{L}\\p{N}])`, "iu")));
+  casual.push(/^(😂|👍|🙏)/u);
+  for (const pattern of config.recallCasualPatterns) {
+    try {
+      casual.push(new RegExp(pattern, "iu"));
+    } catch (err: any) {
+      logger.warn(`[momo] Ignoring invalid recall casual pattern "${pattern}": ${err.message}`);
+    }
+  }
+
+  const words = (list: string[]) => list.filter((k) => k.replace(/\*$/, "").trim()).map(wordPattern);
+  return {
+    mode: config.recallMode,
+    casual,
+    keywords: words([...packs.flatMap((p) => p.keywords), ...config.recallKeywords]),
+    triggers: words([...packs.flatMap((p) => p.triggers), ...config.recallTriggers]),
+    minChars: config.recallMinChars,
+    shortChars: config.recallShortChars,
+  };
+}
+
+/** Match a keyword or trigger as a whole word (or word prefix, with a trailing `*`) */
+function wordPattern(keyword: string): RegExp {
+  const stem = keyword.endsWith("*");
+  const text = (stem ? keyword.slice(0, -1) : keyword).trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (UNSPACED_SCRIPT.test(text)) return new RegExp(text, "iu");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${text}${stem ? "" : "(?![\\p{L}\\p{N}])"}`, "iu");
+}
+
+/**
+ * Message length for the thresholds. CJK characters carry roughly a word
+ * each, so they count double — otherwise a full Korean or Japanese question
+ * looks "short".
+ */
+function gateLength(text: string): number {
+  const dense = text.match(/[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/gu)?.length || 0;
+  return text.length + dense;
+}
+
+function shouldRecall(gate: RecallGate, text: string): boolean {
+  const lower = text.toLowerCase().trim();
+  if (!lower) return false;
+  const triggered = gate.triggers.some((t) => t.test(lower));
+  if (gate.mode === "explicit") return triggered;
+  if (gate.mode === "always" || triggered) return true;
+
+  if (gateLength(lower) < gate.minChars) return false;
+  return !looksLikeCasualChat(lower, gate);
+}
+
+// =============================================================================
+// EXPORT (`openclaw momo export`)
+// =============================================================================
+
+const EXPORT_FORMATS = ["jsonl", "csv", "md"];
+
+const EXPORT_CSV_COLUMNS = [
+  "id", "title", "summary", "decisionType", "confidence", "status", "source",
+  "sourceDate", "sourceUrl", "involvedPersons", "relatedEntities", "relatedProjects", "rationale",
+  "fullContext",
+];
+
+function csvCell(value: unknown): string {
+  let text = value == null ? "" : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const exportName = (x: any) => (typeof x === "string" ? x : x?.name || x?.title || x?.id || "");
+
+/**
+ * One CSV row. List fields are flattened to "a; b" so the file opens cleanly in a spreadsheet.
+ */
+function exportCsvRow(d: any): string {
+  return EXPORT_CSV_COLUMNS.map((col) => {
+    const value = d[col];
+    return csvCell(Array.isArray(value) ? value.map(exportName).filter(Boolean).join("; ") : value);
+  }).join(",");
+}
+
+/**
+ * Markdown digest of decisions grouped by project or source, newest first.
+ * Decisions in several projects are listed under each.
+ */
+function exportMarkdown(decisions: any[], groupBy: "project" | "source", title: string): string {
+  const groups = new Map<string, any[]>();
+  for (const d of decisions) {
+    const keys =
+      groupBy === "source"
+        ? [sourceLabel(d.source || "unknown")]
+        : (d.relatedProjects || []).map(exportName).filter(Boolean);
+    for (const key of keys.length ? keys : ["No project"]) {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(d);
+    }
+  }
+
+  const time = (d: any) => (d.sourceDate ? new Date(d.sourceDate).getTime() : 0);
+  let md = `# ${title}\n\n_${decisions.length} decision(s), exported ${new Date().toISOString().slice(0, 10)}_\n`;
+  for (const [key, items] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    md += `\n## ${key} (${items.length})\n\n`;
+    for (const d of items.sort((a, b) => time(b) - time(a))) {
+      const date = d.sourceDate ? new Date(d.sourceDate).toISOString().slice(0, 10) : "undated";
+      const meta = [date, d.decisionType, d.status && d.status !== "decided" ? d.status : ""].filter(Boolean).join(", ");
+      md += `- **${d.title}** (${meta})`;
+      if (d.sourceUrl) md += ` — [source](${d.sourceUrl})`;
+      md += `\n`;
+      if (d.summary) md += `  ${d.summary}\n`;
+      if (d.involvedPersons?.length) md += `  People: ${d.involvedPersons.map(exportName).join(", ")}\n`;
+      md += `  \`${d.id}\`\n`;
+    }
+  }
+  return md;
+}
+
+// =============================================================================
+// IMPORT (`openclaw momo import`)
+// =============================================================================
+
+interface ImportRecord {
+  key: string; // Stable content hash — dedupes within a run and across resumes
+  file: string;
+  title: string;
+  summary: string;
+  decisionType: string;
+  confidence: string;
+  rationale: string;
+  involvedPersons: Array<{ name: string; role?: string }>;
+  sourceDate?: string;
+  status?: string;
+}
+
+interface ImportProgress {
+  target: string;
+  startedAt: string;
+  updatedAt: string;
+  done: string[]; // Keys stored or skipped as duplicates
+  stored: number;
+  duplicates: number;
+}
+
+const IMPORT_EXTENSIONS: Record<string, "md" | "jsonl" | "csv"> = {
+  ".md": "md",
+  ".markdown": "md",
+  ".jsonl": "jsonl",
+  ".ndjson": "jsonl",
+  ".csv": "csv",
+};
+
+// Keyword → decision type, checked in order when a record doesn't say
+const DECISION_TYPE_HINTS: Array<[RegExp, string]> = [
+  [/\b(approv|sign(ed)? off|green-?lit)/i, "approval"],
+  [/\b(reject|declin|turned down|said no)/i, "rejection"],
+  [/\b(cancel|dropp|sunset|deprecat)/i, "cancellation"],
+  [/\b(chose|choose|select|picked|went with|adopt)/i, "selection"],
+  [/\b(delegat|assign|owner is|owned by)/i, "delegation"],
+  [/\b(prioriti|deprioriti|top priority|focus on)/i, "prioritization"],
+  [/\b(commit|promis|deadline|by (mon|tue|wed|thu|fri|q\d))/i, "commitment"],
+  [/\b(negotiat|agreed terms|contract)/i, "negotiation"],
+  [/\b(confirm|verified)/i, "confirmation"],
+];
+
+// ADR status words → Momo decision status
+const ADR_STATUSES: Record<string, string> = {
+  accepted: "decided",
+  approved: "decided",
+  decided: "decided",
+  proposed: "pending",
+  draft: "pending",
+  pending: "pending",
+  rejected: "revoked",
+  deprecated: "reversed",
+  reversed: "reversed",
+  superseded: "superseded",
+};
+
+const PEOPLE_FIELD = /^(people|deciders?|decided by|participants|owners?|authors?|involved|who)$/i;
+const DATE_PATTERN = /\b(\d{4}-\d{2}-\d{2})\b/;
+
+function inferDecisionType(text: string): string {
+  return DECISION_TYPE_HINTS.find(([re]) => re.test(text))?.[1] || "direction";
+}
+
+function splitPeople(value: unknown): Array<{ name: string; role?: string }> {
+  const items = Array.isArray(value) ? value : String(value ?? "").split(/[;,]|\band\b/);
+  return items
+    .map((p: any) => (typeof p === "string" ? { name: p.replace(/^@/, "").trim() } : { name: String(p?.name || "").trim(), role: p?.role }))
+    .filter((p) => p.name);
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Map a loose object (JSONL line, CSV row, parsed markdown section) onto a
+ * decision record. Accepts the field names our own export writes plus common
+ * alternatives.
+ */
+function normalizeImportRecord(raw: Record<string, any>, file: string): ImportRecord | null {
+  const pick = (...keys: string[]) => keys.map((k) => raw[k]).find((v) => v !== undefined && v !== "");
+  const title = String(pick("title", "name", "heading", "decision") ?? "").trim();
+  const summary = String(pick("summary", "description", "decision", "body", "text", "content") ?? "").trim();
+  if (!title && !summary) return null;
+
+  const type = String(pick("decisionType", "type") ?? "").toLowerCase();
+  const confidence = String(pick("confidence") ?? "").toLowerCase();
+  const status = ADR_STATUSES[String(pick("status") ?? "").toLowerCase().split(/\s/)[0]];
+  const record: ImportRecord = {
+    key: "",
+    file,
+    title: (title || summary).slice(0, 120),
+    summary: summary || title,
+    decisionType: DECISION_TYPES.includes(type) ? type : inferDecisionType(`${title} ${summary}`),
+    confidence: ["high", "medium", "low"].includes(confidence) ? confidence : "medium",
+    rationale: String(pick("rationale", "context", "why", "reason") ?? "").trim(),
+    involvedPersons: splitPeople(pick("involvedPersons", "people", "deciders", "participants", "owner", "author")),
+    sourceDate: toIsoDate(pick("sourceDate", "date", "decidedAt", "createdAt")),
+    ...(status ? { status } : {}),
+  };
+  record.key = createHash("sha256")
+    .update([record.title.toLowerCase(), record.summary.toLowerCase(), record.sourceDate?.slice(0, 10) || ""].join("\n"))
+    .digest("hex")
+    .slice(0, 16);
+  return record;
+}
+
+/**
+ * Read "Key: value" metadata lines (optionally bold, optionally bulleted)
+ * out of a markdown body. Returns the fields and the remaining prose.
+ */
+function markdownFields(body: string): { fields: Record<string, string>; prose: string } {
+  const fields: Record<string, string> = {};
+  const prose: string[] = [];
+  for (const line of body.split("\n")) {
+    const m = line.match(/^\s*(?:[-*]\s+)?\**([A-Za-z][\w ]{1,20}?)\**\s*:\**\s+(.+)$/);
+    const key = m?.[1].trim().toLowerCase();
+    if (m && key && (PEOPLE_FIELD.test(key) || ["date", "type", "status", "confidence", "rationale", "why"].includes(key))) {
+      fields[PEOPLE_FIELD.test(key) ? "people" : key] = m[2].trim();
+    } else {
+      prose.push(line);
+    }
+  }
+  return { fields, prose: prose.join("\n").trim() };
+}
+
+/**
+ * Parse a markdown file. ADR-style docs (a title plus Status/Context/Decision
+ * sections) become one record; otherwise each heading is a decision, and a
+ * section made only of bullets becomes one decision per bullet.
+ */
+function parseMarkdownImport(text: string, file: string): ImportRecord[] {
+  const sections: Array<{ level: number; heading: string; body: string }> = [];
+  let current = { level: 0, heading: "", body: "" };
+  for (const line of text.split("\n")) {
+    const h = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (h) {
+      sections.push(current);
+      current = { level: h[1].length, heading: h[2], body: "" };
+    } else {
+      current.body += line + "\n";
+    }
+  }
+  sections.push(current);
+
+  const named = (name: string) => sections.find((sec) => sec.heading.trim().toLowerCase() === name)?.body.trim();
+  const decisionSection = named("decision") ?? named("decision outcome");
+  if (decisionSection !== undefined) {
+    const title = sections.find((sec) => sec.level === 1)?.heading || path.basename(file).replace(/\.\w+$/, "");
+    const { fields } = markdownFields(sections.map((sec) => sec.body).join("\n"));
+    const record = normalizeImportRecord(
+      {
+        ...fields,
+        title: title.replace(/^(ADR[-\s]?\d+|\d+)[.:\s-]*/i, "").trim() || title,
+        summary: markdownFields(decisionSection).prose.split(/\n\s*\n/)[0],
+        rationale: named("context") ?? named("context and problem statement") ?? "",
+        status: named("status")?.split("\n")[0] || fields.status,
+        date: fields.date || title.match(DATE_PATTERN)?.[1],
+      },
+      file
+    );
+    return record ? [record] : [];
+  }
+
+  const records: ImportRecord[] = [];
+  for (const sec of sections) {
+    const { fields, prose } = markdownFields(sec.body);
+    const bullets = prose.split("\n").filter((l) => l.trim());
+    const allBullets = bullets.length > 0 && bullets.every((l) => /^\s*[-*]\s+/.test(l));
+    if (allBullets && !Object.keys(fields).length) {
+      for (const bullet of bullets) {
+        const item = bullet.replace(/^\s*[-*]\s+(\[[ x]\]\s+)?/, "").trim();
+        const date = item.match(DATE_PATTERN)?.[1];
+        const textOnly = item.replace(/^\**\d{4}-\d{2}-\d{2}\**\s*[:—-]?\s*/, "");
+        const record = normalizeImportRecord(
+          { title: textOnly.replace(/@([\w.-]+)/g, "$1"), summary: textOnly, date: date || sec.heading.match(DATE_PATTERN)?.[1], people: textOnly.match(/@[\w.-]+/g) },
+          file
+        );
+        if (record) records.push(record);
+      }
+    } else if (sec.heading && (prose || Object.keys(fields).length)) {
+      const record = normalizeImportRecord(
+        { ...fields, title: sec.heading.replace(DATE_PATTERN, "").replace(/^[\s:—-]+|[\s:—-]+$/g, ""), summary: prose, date: fields.date || sec.heading.match(DATE_PATTERN)?.[1] },
+        file
+      );
+      if (record) records.push(record);
+    }
+  }
+  return records;
+}
+
+/**
+ * Minimal RFC 4180 reader — quoted fields, doubled quotes, embedded newlines.
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((c) => c !== "")) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some((c) => c !== "")) rows.push(row);
+  return rows;
+}
+
+function parseImportFile(text: string, file: string, format: "md" | "jsonl" | "csv"): ImportRecord[] {
+  if (format === "md") return parseMarkdownImport(text, file);
+
+  const objects: Record<string, any>[] = [];
+  if (format === "jsonl") {
+    text.split("\n").forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        objects.push(JSON.parse(line));
+      } catch {
+        throw new Error(`line ${i + 1}: invalid JSON`);
+      }
+    });
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    for (const row of rows) {
+      objects.push(Object.fromEntries((header || []).map((col, i) => [col.trim(), row[i] ?? ""])));
+    }
+  }
+  return objects.map((o) => normalizeImportRecord(o, file)).filter((r): r is ImportRecord => r !== null);
+}
+
+/**
+ * Files to import: the path itself, or every supported file under a directory.
+ */
+async function collectImportFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return [target];
+  const files: string[] = [];
+  for (const entry of await fs.readdir(target, { withFileTypes: true })) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+    const full = path.join(target, entry.name);
+    if (entry.isDirectory()) files.push(...(await collectImportFiles(full)));
+    else if (IMPORT_EXTENSIONS[path.extname(entry.name).toLowerCase()]) files.push(full);
+  }
+  return files.sort();
+}
+
+function importProgressFile(config: MomoConfig, target: string): string {
+  const hash = createHash("sha256").update(target).digest("hex").slice(0, 16);
+  return path.join(config.dataDir, "imports", `${hash}.json`);
+}
+
+function newImportProgress(target: string): ImportProgress {
+  const now = new Date().toISOString();
+  return { target, startedAt: now, updatedAt: now, done: [], stored: 0, duplicates: 0 };
+}
+
+async function loadImportProgress(file: string, target: string): Promise<ImportProgress> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return newImportProgress(target);
+  }
+}
+
+async function saveImportProgress(file: string, progress: ImportProgress) {
+  progress.updatedAt = new Date().toISOString();
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(progress, null, 2), "utf8");
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Whether Momo already has this decision — same title (case-insensitive) and,
+ * when both sides are dated, the same day.
+ */
+async function findExistingDecision(
+  config: MomoConfig,
+  record: { title: string; sourceDate?: string }
+): Promise<string | null> {
+  const data = await momoFetch(config, searchPath(record.title, 5, {}));
+  const norm = (t: string) => t.toLowerCase().replace(/\s+/g, " ").trim();
+  const day = record.sourceDate?.slice(0, 10);
+  const match = (data.results || []).find(
+    (r: any) =>
+      norm(r.title || "") === norm(record.title) &&
+      (!day || !r.sourceDate || new Date(r.sourceDate).toISOString().slice(0, 10) === day)
+  );
+  return match ? match.id : null;
+}
+
+// =============================================================================
+// MEMORY FILE SYNC (mirror Momo ↔ a local markdown memory file)
+// =============================================================================
+//
+// Synced decisions live between two marker comments in the file; anything
+// outside them is left alone. Each decision is a `### Title` block tagged with
+// its Momo ID. The state file remembers a hash of every block as last synced,
+// which is how we tell a local edit from a remote one — and both from a
+// conflict. The pull searches for `*` over decisions dated from the start of
+// the sync window and diffs them against those hashes by ID, so decisions
+// captured late with an older date, and edits made in Momo, both come through.
+// After the first pass only decisions updated since the previous pull are
+// asked for (`updatedSince`); an API that ignores it sends the whole window,
+// which is slower but still correct.
+
+const SYNC_BEGIN = "<!-- momo:sync:begin — decisions below are synced with Momo; edit freely, add new ### entries without an id to store them -->";
+const SYNC_END = "<!-- momo:sync:end -->";
+const SYNC_INITIAL_LOOKBACK = "30d";
+// The pull cursor is our clock and `updatedAt` is the server's — overlap so skew can't skip an edit
+const SYNC_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+interface SyncEntry {
+  id?: string;
+  title: string;
+  date?: string;
+  type?: string;
+  status?: string;
+  people: string[];
+  summary: string;
+}
+
+type SyncChunk = { kind: "entry"; entry: SyncEntry } | { kind: "conflict"; id: string; raw: string };
+
+interface SyncState {
+  pullFrom?: string; // Start of the sync window, fixed on the first pass
+  pulledAt?: string; // When the last written pull started; later pulls only ask for changes since
+  lastSyncAt?: string;
+  entries: Record<string, string>; // Decision ID → hash of the block as last synced
+  pending: Record<string, string>; // Hash of a stored local block → its new ID, until the ID is written back
+}
+
+interface SyncReport {
+  pulled: number;
+  updatedLocal: number;
+  pushed: number;
+  stored: number;
+  conflicts: number;
+  deferred: boolean; // The file changed mid-pass, so it wasn't written
+}
+
+function syncStateFile(config: MomoConfig): string {
+  return path.join(config.dataDir, "memory-sync.json");
+}
+
+async function loadSyncState(config: MomoConfig): Promise<SyncState> {
+  try {
+    const state = { entries: {}, pending: {}, ...JSON.parse(await fs.readFile(syncStateFile(config), "utf8")) };
+    if (Array.isArray(state.pending)) state.pending = {};
+    return state;
+  } catch {
+    return { entries: {}, pending: {} };
+  }
+}
+
+async function saveSyncState(config: MomoConfig, state: SyncState) {
+  await fs.mkdir(config.dataDir, { recursive: true });
+  await fs.writeFile(`${syncStateFile(config)}.tmp`, JSON.stringify(state, null, 2), "utf8");
+  await fs.rename(`${syncStateFile(config)}.tmp`, syncStateFile(config));
+}
+
+function syncEntryFromDecision(d: any): SyncEntry {
+  return {
+    id: d.id,
+    title: String(d.title || "").trim(),
+    date: d.sourceDate ? new Date(d.sourceDate).toISOString().slice(0, 10) : undefined,
+    type: d.decisionType,
+    status: d.status || "decided",
+    people: (d.involvedPersons || []).map(exportName).filter(Boolean),
+    summary: String(d.summary || "").trim(),
+  };
+}
+
+function syncEntryHash(entry: SyncEntry): string {
+  const norm = (v?: string) => (v || "").replace(/\s+/g, " ").trim();
+  // Compared as values, so "2024-3-5" matches "2024-03-05" and "Decided" matches "decided"
+  const date = toIsoDate(entry.date)?.slice(0, 10) || norm(entry.date);
+  const people = entry.people.map((p) => norm(p.replace(/^@/, ""))).filter(Boolean);
+  return createHash("sha256")
+    .update(JSON.stringify([norm(entry.title), date, norm(entry.type).toLowerCase(), norm(entry.status).toLowerCase(), people, norm(entry.summary)]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Names that contain a separator are quoted, so "Smith, Jane" stays one person
+function renderSyncPeople(people: string[]): string {
+  return people
+    .map((name) => (/[,;"]|\band\b/.test(name) ? `"${name.replace(/["\\]/g, "\\$&")}"` : name))
+    .join(", ");
+}
+
+function parseSyncPeople(value?: string): string[] {
+  const names: string[] = [];
+  for (const m of (value || "").matchAll(/"((?:[^"\\]|\\.)*)"|[^"]+/g)) {
+    if (m[1] !== undefined) names.push(m[1].replace(/\\(.)/g, "$1").trim());
+    else names.push(...splitPeople(m[0]).map((p) => p.name));
+  }
+  return names.filter(Boolean);
+}
+
+function renderSyncEntry(entry: SyncEntry): string {
+  const lines = [`### ${entry.title}`];
+  if (entry.id) lines.push(`<!-- momo:id=${entry.id} -->`);
+  if (entry.date) lines.push(`Date: ${entry.date}`);
+  if (entry.type) lines.push(`Type: ${entry.type}`);
+  if (entry.status) lines.push(`Status: ${entry.status}`);
+  if (entry.people.length) lines.push(`People: ${renderSyncPeople(entry.people)}`);
+  lines.push("", entry.summary || "_(no summary)_", "");
+  return lines.join("\n");
+}
+
+function parseSyncEntry(block: string): SyncEntry | null {
+  const heading = block.match(/^###\s+(.+)$/m);
+  if (!heading) return null;
+  const id = block.match(/<!--\s*momo:id=([^\s>]+)\s*-->/)?.[1];
+  const body = block
+    .slice(heading.index! + heading[0].length)
+    .replace(/<!--\s*momo:id=[^>]*-->/, "");
+  const { fields, prose } = markdownFields(body);
+  return {
+    ...(id ? { id } : {}),
+    title: heading[1].trim(),
+    date: fields.date,
+    type: fields.type,
+    status: fields.status,
+    people: parseSyncPeople(fields.people),
+    summary: prose === "_(no summary)_" ? "" : prose,
+  };
+}
+
+/**
+ * Split the memory file into the text around the synced region and the
+ * chunks inside it. Unresolved conflicts are kept verbatim.
+ */
+function parseMemoryFile(text: string): { before: string; chunks: SyncChunk[]; after: string } {
+  const begin = text.indexOf("<!-- momo:sync:begin");
+  const end = text.indexOf(SYNC_END);
+  if (begin < 0 || end < begin) {
+    return { before: text.trimEnd() ? `${text.trimEnd()}\n\n` : "", chunks: [], after: "" };
+  }
+
+  const before = text.slice(0, begin);
+  const region = text.slice(text.indexOf("\n", begin) + 1, end);
+  const after = text.slice(end + SYNC_END.length);
+  const chunks: SyncChunk[] = [];
+
+  const parts = region.split(/^(<<<<<<< [^\n]*\n[\s\S]*?\n>>>>>>> [^\n]*)$/m);
+  parts.forEach((part, i) => {
+    if (i % 2 === 1) {
+      chunks.push({ kind: "conflict", id: part.match(/momo:id=([^\s>]+)/)?.[1] || "", raw: part });
+      return;
+    }
+    for (const block of part.split(/^(?=###\s)/m)) {
+      const entry = parseSyncEntry(block);
+      if (entry) chunks.push({ kind: "entry", entry });
+    }
+  });
+  return { before, chunks, after };
+}
+
+function renderMemoryFile(before: string, chunks: SyncChunk[], after: string): string {
+  const body = chunks.map((c) => (c.kind === "conflict" ? `${c.raw}\n` : renderSyncEntry(c.entry))).join("\n");
+  return `${before}${SYNC_BEGIN}\n\n${body}${body ? "\n" : ""}${SYNC_END}${after || "\n"}`;
+}
+
+function syncEntryFields(entry: SyncEntry): Record<string, unknown> {
+  return pickDecisionFields({
+    title: entry.title,
+    summary: entry.summary,
+    decisionType: entry.type && DECISION_TYPES.includes(entry.type) ? entry.type : undefined,
+    status: entry.status && DECISION_STATUSES.includes(entry.status) ? entry.status : undefined,
+    involvedPersons: entry.people.map((name) => ({ name })),
+  });
+}
+
+/**
+ * One sync pass. Local edits are pushed first (as stores for new entries,
+ * updates for tagged ones), then decisions in the sync window are pulled into
+ * the file. A block changed on both sides since the last sync is wrapped in
+ * conflict markers and left for a person to resolve. If the file changes
+ * while the pass runs, it isn't overwritten; the next pass picks up the edit.
+ */
+async function syncMemoryFile(config: MomoConfig, logger: OpenClawPluginApi["logger"]): Promise<SyncReport> {
+  const file = config.memorySyncFile;
+  const report: SyncReport = { pulled: 0, updatedLocal: 0, pushed: 0, stored: 0, conflicts: 0, deferred: false };
+
+  const readMemoryFile = async (): Promise<{ text: string; mtimeMs: number }> => {
+    try {
+      const [text, stat] = await Promise.all([fs.readFile(file, "utf8"), fs.stat(file)]);
+      return { text, mtimeMs: stat.mtimeMs };
+    } catch (err: any) {
+      if (err.code !== "ENOENT") throw err;
+      return { text: "", mtimeMs: 0 };
+    }
+  };
+
+  const read = await readMemoryFile();
+  const text = read.text;
+  const { before, chunks, after } = parseMemoryFile(text);
+  const state = await loadSyncState(config);
+  state.pullFrom ||= parseDateExpression(SYNC_INITIAL_LOOKBACK)!.start.toISOString();
+
+  // Hashes that only hold once the file is written (pulled blocks, adopted
+  // IDs, conflicts). Pushes change Momo itself, so they go into state directly.
+  const written: Record<string, string> = {};
+  const adopted: string[] = [];
+  const baseOf = (id: string) => written[id] ?? state.entries[id];
+
+  const conflict = (local: SyncEntry, remote: SyncEntry): SyncChunk => {
+    report.conflicts++;
+    // The remote version becomes the base, so the resolved block reads as a local edit
+    written[remote.id!] = syncEntryHash(remote);
+    return {
+      kind: "conflict",
+      id: remote.id!,
+      raw: `<<<<<<< local\n${renderSyncEntry(local).trimEnd()}\n=======\n${renderSyncEntry(remote).trimEnd()}\n>>>>>>> momo`,
+    };
+  };
+
+  // ---- Push local edits ----------------------------------------------------
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    if (chunk.kind !== "entry") continue;
+    const local = chunk.entry;
+    const localHash = syncEntryHash(local);
+
+    if (!local.id) {
+      if (!(localHash in state.pending)) {
+        const data = await momoFetch(config, "/api/ext/store", {
+          method: "POST",
+          // Same block, same key — a retried store can't create a second copy
+          headers: { "Idempotency-Key": `sync-${localHash}` },
+          body: JSON.stringify({
+            decisions: [await sealDecision(config, { ...syncEntryFields(local), source: "openclaw", sourceDate: toIsoDate(local.date) })],
+          }),
+        });
+        state.pending[localHash] = String(data.ids?.[0] || data.decisions?.[0]?.id || "");
+        if (!state.pending[localHash]) {
+          logger.warn(`[momo] Memory sync: stored "${local.title}" but Momo returned no ID; it won't be tagged in ${file}`);
+        }
+        report.stored++;
+      }
+      const id = state.pending[localHash];
+      if (id) {
+        local.id = id;
+        written[id] = localHash;
+        adopted.push(localHash);
+      }
+      continue;
+    }
+
+    const base = baseOf(local.id);
+    if (base === localHash) continue;
+
+    const data = await momoFetch(config, `/api/ext/decisions/${encodeURIComponent(local.id)}`);
+    if (!data.decision) continue;
+    const remote = syncEntryFromDecision(data.decision);
+    const remoteHash = syncEntryHash(remote);
+    if (remoteHash === localHash) {
+      state.entries[local.id] = localHash;
+    } else if (base && remoteHash !== base) {
+      chunks[i] = conflict(local, remote);
+    } else {
+      await sendLifecycleWrite(config, await updateDecisionWrite(config, local.id, syncEntryFields(local)));
+      state.entries[local.id] = localHash;
+      report.pushed++;
+    }
+  }
+
+  // ---- Pull new and changed decisions -------------------------------------
+  const pulled = new Map<string, any>();
+  const pullStartedAt = new Date(Date.now() - SYNC_CLOCK_SKEW_MS).toISOString();
+  const pullFilters = { since: state.pullFrom, updatedSince: state.pulledAt, sort: "recency" };
+  for await (const results of searchPages(config, "*", 50, pullFilters)) {
+    for (const d of results) if (d?.id && !pulled.has(d.id)) pulled.set(d.id, d);
+  }
+
+  for (const d of [...pulled.values()].reverse()) {
+    const remote = syncEntryFromDecision(d);
+    const remoteHash = syncEntryHash(remote);
+    const index = chunks.findIndex((c) => (c.kind === "entry" ? c.entry.id : c.id) === d.id);
+    const base = baseOf(d.id);
+
+    if (index < 0) {
+      // Removed from the file on purpose — don't bring it back
+      if (base) continue;
+      chunks.push({ kind: "entry", entry: remote });
+      written[d.id] = remoteHash;
+      report.pulled++;
+      continue;
+    }
+
+    const chunk = chunks[index];
+    if (chunk.kind !== "entry" || remoteHash === base) continue;
+    const localHash = syncEntryHash(chunk.entry);
+    if (remoteHash === localHash) {
+      written[d.id] = remoteHash;
+    } else if (!base || localHash === base) {
+      chunks[index] = { kind: "entry", entry: remote };
+      written[d.id] = remoteHash;
+      report.updatedLocal++;
+    } else {
+      chunks[index] = conflict(chunk.entry, remote);
+    }
+  }
+
+  const next = renderMemoryFile(before, chunks, after);
+  if (next !== text) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.momo-tmp`, next, "utf8");
+    // Someone saved the file while we were talking to Momo — keep their edit
+    const current = await readMemoryFile();
+    if (current.text !== text || current.mtimeMs !== read.mtimeMs) {
+      await fs.unlink(`${file}.momo-tmp`).catch(() => {});
+      logger.warn(`[momo] Memory sync: ${file} changed during sync; it will be merged on the next pass`);
+      report.deferred = true;
+    } else {
+      await fs.rename(`${file}.momo-tmp`, file);
+    }
+  }
+
+  if (!report.deferred) {
+    Object.assign(state.entries, written);
+    for (const hash of adopted) delete state.pending[hash];
+    state.pulledAt = pullStartedAt;
+    state.lastSyncAt = new Date().toISOString();
+  }
+  await saveSyncState(config, state);
+
+  if (!report.deferred && report.conflicts) {
+    logger.warn(`[momo] Memory sync: ${report.conflicts} conflict(s) in ${file} — resolve the <<<<<<< blocks`);
+  }
+  return report;
+}
+
+// =============================================================================
+// PLUGIN DEFINITION
+// =============================================================================
+
+const momoPlugin = {
+  id: "momo-memory",
+  name: "Momo Memory",
+  description:
+    "Cloud-backed team memory with auto-indexing from Gmail, GitHub, Notion, Slack, Discord",
+  kind: "memory" as const,
+
+  async register(api: OpenClawPluginApi) {
+    const config = resolveConfig(api.pluginConfig);
+
+    if (!config.apiKey) {
+      api.logger.error(
+        "[momo] No API key configured. Set it up at OpenClaw Config → Plugins → All → Momo Memory → Momo API Key"
+      );
+      return;
+    }
+
+    api.logger.info(`[momo] Connecting to ${config.apiUrl}`);
+
+    // Replay buffers left on disk by a crashed/killed previous process.
+    // Auto-capture waits for the restore, so a new turn can't buffer first.
+    const journalsRestored = restoreJournals(config, api.logger).catch((err) => {
+      api.logger.warn("[momo] Failed to replay capture journal:", err);
+      return [] as string[];
+    });
+    journalsRestored
+      .then(async (ready) => {
+        for (const channelKey of ready) await flushBuffer(channelKey, config, api.logger);
+      })
+      .catch((err) => {
+        api.logger.warn("[momo] Failed to replay capture journal:", err);
+      });
+
+    // =========================================================================
+    // TOOL 1: momo_search — Search team decisions
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_search",
+      label: "Search Momo Memory",
+      description:
+        "Search your team's decision memory across Gmail, GitHub, Notion, Slack, and Discord. " +
+        "Returns relevant decisions with IDs, context, people involved, and source links. " +
+        "Combine filters for precise questions, e.g. approvals by Jane in Slack last month: " +
+        "decisionTypes [\"approval\"], person \"Jane\", sources [\"slack\"], since \"last month\".",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "What to search for (natural language)",
+          },
+          limit: {
+            type: "number",
+            description: "Max results (default 5, max 20)",
+          },
+          source: {
+            type: "string",
+            enum: MEMORY_SOURCES,
+            description: "Filter by a single source (optional; see sources for several)",
+          },
+          ...SEARCH_FILTER_PROPERTIES,
+          cursor: {
+            type: "string",
+            description: "Page cursor from a previous momo_search call",
+          },
+        },
+        required: ["query"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        try {
+          const { data, stale, cachedAt } = await searchWithFallback(
+            config,
+            params.query,
+            Math.min(params.limit || 5, 20),
+            params,
+            { cursor: params.cursor, logger: api.logger }
+          );
+
+          if (!data.success || !data.results?.length) {
+            return {
+              content: [{ type: "text", text: params.cursor ? "No more results." : "No relevant decisions found." }],
+            };
+          }
+
+          const offset = params.cursor && /^\d+$/.test(params.cursor) ? Number(params.cursor) : 0;
+          const nextCursor = nextPageCursor(data, params.cursor, data.results.length);
+          const text = data.results
+            .map(
+              (r: any, i: number) =>
+                `${offset + i + 1}. **${r.title}** (${r.source}, ${formatDate(r.sourceDate)})\n` +
+                `   ${r.summary}\n` +
+                `   ID: ${r.id} | Type: ${r.decisionType} | Confidence: ${r.confidence}` +
+                (r.status && r.status !== "decided" ? ` | Status: ${r.status}` : "") +
+                (r.involvedPersons?.length
+                  ? `\n   People: ${r.involvedPersons.map((p: any) => p.name).join(", ")}`
+                  : "")
+            )
+            .join("\n\n");
+
+          if (stale) {
+            return {
+              content: [{ type: "text", text: `${staleNotice(cachedAt)}\n\n${text}` }],
+              details: { resultCount: data.results.length, stale: true, cachedAt },
+            };
+          }
+          return {
+            content: [{ type: "text", text: text + nextPageHint(nextCursor) }],
+            details: { resultCount: data.results.length, nextCursor },
+          };
+        } catch (err: any) {
+          return {
+            content: [
+              { type: "text", text: `Search failed: ${err.message}` },
+            ],
+          };
+        }
+      },
+    });
+
+    // =========================================================================
+    // TOOL 2: momo_store — Save a decision directly
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_store",
+      label: "Store in Momo Memory",
+      description:
+        "Save a decision, commitment, or important fact to team memory. " +
+        "Use this when you notice an important decision in the conversation. " +
+        "The decision will be searchable by the whole team.",
+      parameters: {
+        type: "object",
+        properties: {
+          title: {
+            type: "string",
+            description: "Short title (5-10 words)",
+          },
+          summary: {
+            type: "string",
+            description: "1-2 sentence description of what was decided",
+          },
+          decisionType: {
+            type: "string",
+            enum: DECISION_TYPES,
+            description: "Type of decision",
+          },
+          confidence: {
+            type: "string",
+            enum: ["high", "medium", "low"],
+            description: "How clear is this decision",
+          },
+          rationale: {
+            type: "string",
+            description: "Why this was decided (if known)",
+          },
+          involvedPersons: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                role: { type: "string" },
+              },
+            },
+            description: "People involved in the decision",
+          },
+        },
+        required: ["title", "summary"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        const decision = {
+          title: params.title,
+          summary: params.summary,
+          decisionType: params.decisionType || "direction",
+          confidence: params.confidence || "medium",
+          rationale: params.rationale || "",
+          involvedPersons: params.involvedPersons || [],
+          source: "openclaw",
+        };
+        const body = { decisions: [await sealDecision(config, decision)] };
+        // Searchable offline straight away, even while it waits in the outbox
+        const cacheStoredDecision = (id: string) =>
+          cacheDecisions(config, [{ ...decision, id, sourceDate: new Date().toISOString() }], api.logger).catch(() => {});
+
+        const idempotencyKey = randomUUID();
+
+        try {
+          const data = await momoFetch(config, "/api/ext/store", {
+            method: "POST",
+            headers: { "Idempotency-Key": idempotencyKey },
+            body: JSON.stringify(body),
+          });
+          const id = data.ids?.[0] || data.decisions?.[0]?.id;
+          if (id) await cacheStoredDecision(id);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Stored: "${params.title}" (${data.stored} saved, ${data.neo4jSynced || 0} graphed)`,
+              },
+            ],
+          };
+        } catch (err: any) {
+          if (isTransientError(err)) {
+            try {
+              const queued = await enqueueOutbox(config, {
+                kind: "store",
+                path: "/api/ext/store",
+                body,
+                label: `"${params.title}"`,
+                idempotencyKey,
+              });
+              // Re-keyed to the real ID once the outbox delivers it
+              await cacheStoredDecision(localDecisionId(queued));
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Momo is unreachable (${err.message}). Queued "${params.title}" in the offline outbox — it will be stored automatically when the connection returns.`,
+                  },
+                ],
+                details: { queued: true },
+              };
+            } catch {
+              // Fall through to the plain failure
+            }
+          }
+          return {
+            content: [
+              { type: "text", text: `Store failed: ${err.message}` },
+            ],
+          };
+        }
+      },
+    });
+
+    // =========================================================================
+    // TOOL 3: momo_context — Get formatted context for a topic
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_context",
+      label: "Get Momo Context",
+      description:
+        "Retrieve formatted decision context for a topic. " +
+        "Returns a summary of relevant past decisions ready for reference. " +
+        "Use this to get background before answering a question about past work.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Topic to get context for",
+          },
+          maxTokens: {
+            type: "number",
+            description: "Max context size in tokens (default 4000)",
+          },
+          cursor: {
+            type: "string",
+            description: "Page cursor from a previous momo_context call, for decisions that didn't fit",
+          },
+        },
+        required: ["query"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        try {
+          const qs = new URLSearchParams({
+            query: params.query,
+            maxTokens: String(params.maxTokens || 4000),
+            includeDecisions: "true",
+            ...cursorParams(params.cursor),
+          });
+
+          const data = await momoFetch(
+            config,
+            `/api/ext/context?${qs.toString()}`
+          );
+
+          if (!data.context) {
+            return {
+              content: [
+                { type: "text", text: "No relevant context found." },
+              ],
+            };
+          }
+
+          // Older API versions don't list the decisions behind the prose — look them up
+          let decisions: any[] = data.decisions || [];
+          if (!decisions.length && data.decisionsIncluded > 0) {
+            try {
+              const found = await momoFetch(
+                config,
+                searchPath(params.query, Math.min(data.decisionsIncluded, 20), {}, params.cursor)
+              );
+              decisions = found.results || [];
+            } catch {
+              // The context is still useful without its source list
+            }
+          }
+
+          const sources = decisions.length
+            ? `\n\nSources (cite as [m:<id>]):\n${decisions.map((d) => `- ${citationLine(d)}`).join("\n")}`
+            : "";
+          const nextCursor = nextPageCursor(data, params.cursor, data.decisionsIncluded || 0);
+          return {
+            content: [{ type: "text", text: data.context + sources + nextPageHint(nextCursor) }],
+            details: {
+              decisionsIncluded: data.decisionsIncluded,
+              estimatedTokens: data.estimatedTokens,
+              citations: decisions.map((d) => d.id),
+              nextCursor,
+            },
+          };
+        } catch (err: any) {
+          return {
+            content: [
+              { type: "text", text: `Context retrieval failed: ${err.message}` },
+            ],
+          };
+        }
+      },
+    });
+
+    // =========================================================================
+    // TOOL 4: momo_summary — Get team activity summary
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_summary",
+      label: "Momo Team Summary",
+      description:
+        "Get a summary of team activity for a time period. " +
+        "Shows decisions grouped by source (Gmail, GitHub, Slack, etc.).",
+      parameters: {
+        type: "object",
+        properties: {
+          period: {
+            type: "string",
+            enum: ["today", "week", "month"],
+            description: "Time period (default: week)",
+          },
+          limit: {
+            type: "number",
+            description: "Decisions listed per source (default 5, max 50)",
+          },
+          cursor: {
+            type: "string",
+            description: "Page cursor from a previous momo_summary call",
+          },
+        },
+      },
+      async execute(_toolCallId: string, params: any) {
+        try {
+          const limit = Math.min(params.limit || 5, 50);
+          const { data, page } = await fetchSummaryPage(config, params.period || "week", limit, params.cursor);
+
+          if (!data.totalDecisions) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No activity found for ${params.period || "this week"}.`,
+                },
+              ],
+            };
+          }
+
+          let text = `**Team Activity (${data.period})** — ${data.totalDecisions} decisions\n\n`;
+          if (page.repeated) {
+            text += "The server returned the first page again — it doesn't support paging summaries. Use a shorter period or a higher limit instead.\n\n";
+          }
+
+          for (const [source, info] of Object.entries(data.bySource || {}) as any) {
+            const decisions = page.decisions(info);
+            if (params.cursor && !decisions.length) continue;
+            text += `### ${source.charAt(0).toUpperCase() + source.slice(1)} (${info.count})\n`;
+            for (const d of decisions) {
+              text += `- ${d.title}`;
+              if (d.decisionType) text += ` (${d.decisionType})`;
+              text += `\n`;
+            }
+            const remaining = page.remaining(info, decisions.length);
+            if (remaining > 0) text += `- ... and ${remaining} more\n`;
+            text += `\n`;
+          }
+
+          return {
+            content: [{ type: "text", text: text.trimEnd() + nextPageHint(page.nextCursor) }],
+            details: { totalDecisions: data.totalDecisions, nextCursor: page.nextCursor },
+          };
+        } catch (err: any) {
+          return {
+            content: [
+              { type: "text", text: `Summary failed: ${err.message}` },
+            ],
+          };
+        }
+      },
+    });
+
+    // =========================================================================
+    // TOOL 5: momo_schedule — Create a scheduled task
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_schedule",
+      label: "Schedule Momo Task",
+      description:
+        "Create a recurring scheduled task (daily brief, weekly summary, etc.). " +
+        "Momo will generate AI content on the schedule and deliver via email, Slack, or in-app.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "Short name (e.g. 'Daily Summary', 'Weekly Report')",
+          },
+          prompt: {
+            type: "string",
+            description:
+              "What to generate each run (e.g. 'Summarize all decisions I made today')",
+          },
+          scheduledTime: {
+            type: "string",
+            description: "Time in HH:MM format (e.g. '17:00')",
+          },
+          frequency: {
+            type: "string",
+            enum: ["daily", "weekly", "monthly"],
+            description: "How often to run",
+          },
+          dayOfWeek: {
+            type: "number",
+            description: "Day of week for weekly (0=Sun, 1=Mon, ..., 6=Sat)",
+          },
+          dayOfMonth: {
+            type: "number",
+            description: "Day of month for monthly (1-31)",
+          },
+          deliveryChannel: {
+            type: "string",
+            enum: ["email", "slack", "in_app"],
+            description: "How to deliver (default: in_app)",
+          },
+        },
+        required: ["name", "prompt", "scheduledTime", "frequency"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        try {
+          const data = await momoFetch(config, "/api/ext/scheduled-tasks", {
+            method: "POST",
+            body: JSON.stringify({
+              name: params.name,
+              prompt: params.prompt,
+              scheduledTime: params.scheduledTime,
+              frequency: params.frequency,
+              dayOfWeek: params.dayOfWeek,
+              dayOfMonth: params.dayOfMonth,
+              deliveryChannel: params.deliveryChannel || "in_app",
+            }),
+          });
+
+          if (!data.success) {
+            return {
+              content: [
+                { type: "text", text: `Failed: ${data.error}` },
+              ],
+            };
+          }
+
+          return {
+            content: [{ type: "text", text: data.message }],
+            details: { taskId: data.task.id, schedule: data.task.schedule },
+          };
+        } catch (err: any) {
+          return {
             content: [
-              { type: "text", text: `Search failed: ${err.message}` },
+              { type: "text", text: `Schedule failed: ${err.message}` },
             ],
           };
         }
@@ -223,90 +4786,98 @@ const momoPlugin = {
     });
 
     // =========================================================================
-    // TOOL 2: momo_store — Save a decision directly
+    // TOOL 6: momo_list_schedules — List scheduled tasks
     // =========================================================================
 
     api.registerTool({
-      name: "momo_store",
-      label: "Store in Momo Memory",
+      name: "momo_list_schedules",
+      label: "List Momo Schedules",
       description:
-        "Save a decision, commitment, or important fact to team memory. " +
-        "Use this when you notice an important decision in the conversation. " +
-        "The decision will be searchable by the whole team.",
+        "List all your scheduled tasks (daily briefs, weekly reports, etc.) " +
+        "with their status, next run time, and delivery channel.",
       parameters: {
         type: "object",
-        properties: {
-          title: {
-            type: "string",
-            description: "Short title (5-10 words)",
-          },
-          summary: {
-            type: "string",
-            description: "1-2 sentence description of what was decided",
-          },
-          decisionType: {
-            type: "string",
-            enum: [
-              "approval", "rejection", "selection", "delegation",
-              "commitment", "direction", "confirmation", "cancellation",
-              "negotiation", "prioritization",
+        properties: {},
+      },
+      async execute() {
+        try {
+          const data = await momoFetch(config, "/api/ext/scheduled-tasks");
+
+          if (!data.tasks?.length) {
+            return {
+              content: [
+                { type: "text", text: "No scheduled tasks found." },
+              ],
+            };
+          }
+
+          const text = data.tasks
+            .map(
+              (t: any) =>
+                `${t.enabled ? "●" : "○"} **${t.name}**\n` +
+                `  ${t.schedule} → ${t.deliveryChannel}\n` +
+                `  Runs: ${t.runCount || 0} | Last: ${t.lastRunStatus || "never"}` +
+                (t.enabled ? "" : " (disabled)")
+            )
+            .join("\n\n");
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: `**Scheduled Tasks** (${data.activeCount} active / ${data.count} total)\n\n${text}`,
+              },
             ],
-            description: "Type of decision",
-          },
-          confidence: {
-            type: "string",
-            enum: ["high", "medium", "low"],
-            description: "How clear is this decision",
-          },
-          rationale: {
+          };
+        } catch (err: any) {
+          return {
+            content: [
+              { type: "text", text: `List failed: ${err.message}` },
+            ],
+          };
+        }
+      },
+    });
+
+    // =========================================================================
+    // TOOL 7: momo_cancel_schedule — Cancel a scheduled task
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_cancel_schedule",
+      label: "Cancel Momo Schedule",
+      description:
+        "Cancel a scheduled task by ID. The task is disabled, not deleted.",
+      parameters: {
+        type: "object",
+        properties: {
+          taskId: {
             type: "string",
-            description: "Why this was decided (if known)",
-          },
-          involvedPersons: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                name: { type: "string" },
-                role: { type: "string" },
-              },
-            },
-            description: "People involved in the decision",
+            description: "The task ID to cancel",
           },
         },
-        required: ["title", "summary"],
+        required: ["taskId"],
       },
       async execute(_toolCallId: string, params: any) {
         try {
-          const data = await momoFetch(config, "/api/ext/store", {
-            method: "POST",
-            body: JSON.stringify({
-              decisions: [
-                {
-                  title: params.title,
-                  summary: params.summary,
-                  decisionType: params.decisionType || "direction",
-                  confidence: params.confidence || "medium",
-                  rationale: params.rationale || "",
-                  involvedPersons: params.involvedPersons || [],
-                  source: "openclaw",
-                },
-              ],
-            }),
-          });
+          const data = await momoFetch(
+            config,
+            `/api/ext/scheduled-tasks/${params.taskId}`,
+            { method: "DELETE" }
+          );
 
           return {
             content: [
               {
                 type: "text",
-                text: `Stored: "${params.title}" (${data.stored} saved, ${data.neo4jSynced || 0} graphed)`,
+                text: data.message || "Task cancelled.",
               },
             ],
           };
         } catch (err: any) {
           return {
             content: [
-              { type: "text", text: `Store failed: ${err.message}` },
+              { type: "text", text: `Cancel failed: ${err.message}` },
             ],
           };
         }
@@ -314,348 +4885,612 @@ const momoPlugin = {
     });
 
     // =========================================================================
-    // TOOL 3: momo_context — Get formatted context for a topic
+    // TOOL 8: momo_confirm_action — Approve or deny a pending write action
+    // =========================================================================
+
+    api.registerTool(
+      (ctx: OpenClawPluginToolContext) => ({
+        name: "momo_confirm_action",
+        label: "Confirm Momo Action",
+        description:
+          "Approve or deny a pending side-effecting integration action (send email, post message, create issue, etc.) " +
+          "after showing its preview to the user. Only approve when the user has explicitly confirmed in a reply.",
+        parameters: {
+          type: "object",
+          properties: {
+            actionId: {
+              type: "string",
+              description: "The pending action ID returned with the preview",
+            },
+            decision: {
+              type: "string",
+              enum: ["approve", "deny"],
+              description: "The user's decision",
+            },
+          },
+          required: ["actionId", "decision"],
+        },
+        async execute(_toolCallId: string, params: any) {
+          prunePendingActions();
+          const sessionKey = toolSessionKey(ctx);
+          const action = pendingActions.get(params.actionId);
+          // Actions from other conversations are invisible here
+          if (!action || action.sessionKey !== sessionKey) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No pending action "${params.actionId}" (it may have expired or already been handled). Call the tool again to get a fresh preview.`,
+                },
+              ],
+            };
+          }
+
+          if (params.decision !== "approve") {
+            pendingActions.delete(action.id);
+            return {
+              content: [
+                { type: "text", text: `Cancelled ${action.toolName} — nothing was sent.` },
+              ],
+            };
+          }
+
+          // The user has to see the preview and answer it; the action stays pending until they do
+          if ((sessionTurns.get(sessionKey) || 0) <= action.turn) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text:
+                    `Not approved — the user hasn't replied since the preview was shown. ` +
+                    `Show them the preview and wait for their answer before confirming "${action.id}".`,
+                },
+              ],
+            };
+          }
+
+          // One-shot: an action can only be approved or denied once
+          pendingActions.delete(action.id);
+
+          // Executes exactly the previewed params, not anything the model passes now
+          return executeIntegrationTool(config, action.toolName, action.params, true);
+        },
+      }),
+      { name: "momo_confirm_action" }
+    );
+
+    // =========================================================================
+    // TOOL 9: momo_tool_result_page — Page through a truncated tool result
     // =========================================================================
 
     api.registerTool({
-      name: "momo_context",
-      label: "Get Momo Context",
+      name: "momo_tool_result_page",
+      label: "Momo Tool Result Page",
       description:
-        "Retrieve formatted decision context for a topic. " +
-        "Returns a summary of relevant past decisions ready for reference. " +
-        "Use this to get background before answering a question about past work.",
+        "Read the full output of an integration tool result that was truncated. " +
+        "Use the handle and page range given in the truncation note.",
       parameters: {
         type: "object",
         properties: {
-          query: {
+          handle: {
             type: "string",
-            description: "Topic to get context for",
+            description: "Result handle from the truncation note (e.g. r_1a2b3c4d)",
           },
-          maxTokens: {
+          page: {
             type: "number",
-            description: "Max context size in tokens (default 4000)",
+            description: "Page number, starting at 1 (default 1)",
           },
         },
-        required: ["query"],
+        required: ["handle"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        const stored = resultHandles.get(params.handle);
+        if (!stored) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `No stored result "${params.handle}" (results are kept for 30 minutes). Call the original tool again.`,
+              },
+            ],
+          };
+        }
+
+        const pages = Math.ceil(stored.text.length / stored.pageSize);
+        const page = Math.min(Math.max(Math.floor(params.page || 1), 1), pages);
+        const start = (page - 1) * stored.pageSize;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                `[${stored.toolName} result, page ${page}/${pages}]\n` +
+                stored.text.slice(start, start + stored.pageSize) +
+                (page < pages ? `\n[Continue with page ${page + 1}]` : "\n[End of result]"),
+            },
+          ],
+          details: { page, pages },
+        };
+      },
+    });
+
+    // =========================================================================
+    // TOOL 10: momo_update_decision — Edit fields on an existing decision
+    // =========================================================================
+
+    const decisionFieldProperties = {
+      title: { type: "string", description: "Short title (5-10 words)" },
+      summary: { type: "string", description: "1-2 sentence description of what was decided" },
+      rationale: { type: "string", description: "Why this was decided" },
+      decisionType: { type: "string", enum: DECISION_TYPES, description: "Type of decision" },
+      confidence: { type: "string", enum: ["high", "medium", "low"], description: "How clear is this decision" },
+      involvedPersons: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { name: { type: "string" }, role: { type: "string" } },
+        },
+        description: "People involved in the decision",
+      },
+    };
+
+    const lifecycleResult = (result: { queued: boolean }, done: string) => ({
+      content: [
+        {
+          type: "text",
+          text: result.queued
+            ? `Momo is unreachable — queued in the offline outbox: ${done}. It will be applied when the connection returns.`
+            : done,
+        },
+      ],
+      details: { queued: result.queued },
+    });
+
+    api.registerTool({
+      name: "momo_update_decision",
+      label: "Update Momo Decision",
+      description:
+        "Update fields on an existing decision (title, summary, rationale, type, confidence, status, people). " +
+        "Get the decision ID from momo_search results. To record that a decision was undone, use momo_reverse_decision; " +
+        "to replace it with a new one, use momo_supersede_decision.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Decision ID (from momo_search)" },
+          ...decisionFieldProperties,
+          status: {
+            type: "string",
+            enum: ["decided", "pending"],
+            description: "Decision status",
+          },
+        },
+        required: ["id"],
       },
       async execute(_toolCallId: string, params: any) {
+        const updates = pickDecisionFields(params);
+        if (Object.keys(updates).length === 0) {
+          return {
+            content: [{ type: "text", text: "Nothing to update — pass at least one field to change." }],
+          };
+        }
+
         try {
-          const qs = new URLSearchParams({
-            query: params.query,
-            maxTokens: String(params.maxTokens || 4000),
-          });
+          const result = await sendLifecycleWrite(config, await updateDecisionWrite(config, params.id, updates));
+          return lifecycleResult(
+            result,
+            `Updated decision ${params.id} (${Object.keys(updates).join(", ")})`
+          );
+        } catch (err: any) {
+          return {
+            content: [{ type: "text", text: `Update failed: ${err.message}` }],
+          };
+        }
+      },
+    });
 
-          const data = await momoFetch(
+    // =========================================================================
+    // TOOL 11: momo_reverse_decision — Mark a decision reversed or revoked
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_reverse_decision",
+      label: "Reverse Momo Decision",
+      description:
+        "Mark an existing decision as reversed (the team changed its mind) or revoked (it was withdrawn/never valid). " +
+        "Use when a conversation undoes an earlier call without a specific replacement.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Decision ID (from momo_search)" },
+          status: {
+            type: "string",
+            enum: ["reversed", "revoked"],
+            description: "reversed (default) or revoked",
+          },
+          reason: { type: "string", description: "Why it was reversed" },
+        },
+        required: ["id"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        const status = params.status === "revoked" ? "revoked" : "reversed";
+        try {
+          const result = await sendLifecycleWrite(
             config,
-            `/api/ext/context?${qs.toString()}`
+            reverseDecisionWrite(params.id, status, params.reason)
           );
+          return lifecycleResult(result, `Marked decision ${params.id} as ${status}`);
+        } catch (err: any) {
+          return {
+            content: [{ type: "text", text: `Reverse failed: ${err.message}` }],
+          };
+        }
+      },
+    });
 
-          if (!data.context) {
-            return {
-              content: [
-                { type: "text", text: "No relevant context found." },
-              ],
-            };
-          }
+    // =========================================================================
+    // TOOL 12: momo_supersede_decision — Replace a decision with a newer one
+    // =========================================================================
+
+    api.registerTool({
+      name: "momo_supersede_decision",
+      label: "Supersede Momo Decision",
+      description:
+        "Record that a newer decision replaces an older one. Either link an existing decision (supersededBy) " +
+        "or describe the new decision (title + summary) and it will be stored and linked in one step.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "ID of the old decision being replaced" },
+          supersededBy: { type: "string", description: "ID of an existing decision that replaces it" },
+          ...decisionFieldProperties,
+        },
+        required: ["id"],
+      },
+      async execute(_toolCallId: string, params: any) {
+        const decision = pickDecisionFields(params);
+        const createsNew = Boolean(decision.title && decision.summary);
 
+        if (!params.supersededBy && !createsNew) {
           return {
-            content: [{ type: "text", text: data.context }],
-            details: {
-              decisionsIncluded: data.decisionsIncluded,
-              estimatedTokens: data.estimatedTokens,
-            },
+            content: [
+              {
+                type: "text",
+                text: "Pass either supersededBy (an existing decision ID) or title + summary for the new decision.",
+              },
+            ],
           };
+        }
+
+        try {
+          const result = await sendLifecycleWrite(
+            config,
+            await supersedeDecisionWrite(
+              config,
+              params.id,
+              params.supersededBy
+                ? { supersededBy: params.supersededBy }
+                : {
+                    decision: {
+                      decisionType: "direction",
+                      confidence: "medium",
+                      ...decision,
+                    },
+                  }
+            )
+          );
+          const newId = params.supersededBy || result.data?.decision?.id || result.data?.id;
+          return lifecycleResult(
+            result,
+            `Decision ${params.id} superseded by ${newId ? newId : `"${decision.title}"`}`
+          );
         } catch (err: any) {
           return {
-            content: [
-              { type: "text", text: `Context retrieval failed: ${err.message}` },
-            ],
+            content: [{ type: "text", text: `Supersede failed: ${err.message}` }],
           };
         }
       },
     });
 
     // =========================================================================
-    // TOOL 4: momo_summary — Get team activity summary
+    // TOOL 13: momo_get — Full detail for a single decision
     // =========================================================================
 
     api.registerTool({
-      name: "momo_summary",
-      label: "Momo Team Summary",
+      name: "momo_get",
+      label: "Get Momo Decision",
       description:
-        "Get a summary of team activity for a time period. " +
-        "Shows decisions grouped by source (Gmail, GitHub, Slack, etc.).",
+        "Fetch one decision by ID with full detail: full context, rationale, people, related entities and projects, " +
+        "status, a link to the original email/PR/message, and the decisions it supersedes or was superseded by.",
       parameters: {
         type: "object",
         properties: {
-          period: {
-            type: "string",
-            enum: ["today", "week", "month"],
-            description: "Time period (default: week)",
-          },
+          id: { type: "string", description: "Decision ID (from momo_search)" },
         },
+        required: ["id"],
       },
       async execute(_toolCallId: string, params: any) {
         try {
-          const qs = new URLSearchParams({
-            period: params.period || "week",
-          });
-
           const data = await momoFetch(
             config,
-            `/api/ext/summary?${qs.toString()}`
+            `/api/ext/decisions/${encodeURIComponent(params.id)}`
           );
 
-          if (!data.totalDecisions) {
+          if (!data.decision) {
             return {
-              content: [
-                {
-                  type: "text",
-                  text: `No activity found for ${params.period || "this week"}.`,
-                },
-              ],
+              content: [{ type: "text", text: `Decision ${params.id} not found.` }],
             };
           }
 
-          let text = `**Team Activity (${data.period})** — ${data.totalDecisions} decisions\n\n`;
-
-          for (const [source, info] of Object.entries(data.bySource || {}) as any) {
-            text += `### ${source.charAt(0).toUpperCase() + source.slice(1)} (${info.count})\n`;
-            for (const d of info.decisions.slice(0, 5)) {
-              text += `- ${d.title}`;
-              if (d.decisionType) text += ` (${d.decisionType})`;
-              text += `\n`;
-            }
-            if (info.count > 5) {
-              text += `- ... and ${info.count - 5} more\n`;
-            }
-            text += `\n`;
-          }
-
+          await cacheDecisions(config, [data.decision], api.logger);
+          const text = [`**${data.decision.title}**`, ...decisionDetailLines(data.decision)].join("\n");
           return {
             content: [{ type: "text", text }],
-            details: { totalDecisions: data.totalDecisions },
+            details: { id: data.decision.id, sourceUrl: data.decision.sourceUrl },
           };
         } catch (err: any) {
           return {
-            content: [
-              { type: "text", text: `Summary failed: ${err.message}` },
-            ],
+            content: [{ type: "text", text: `Get failed: ${err.message}` }],
           };
         }
       },
     });
 
     // =========================================================================
-    // TOOL 5: momo_schedule — Create a scheduled task
+    // TOOL 14: momo_related — Walk the memory graph from a node
     // =========================================================================
 
     api.registerTool({
-      name: "momo_schedule",
-      label: "Schedule Momo Task",
+      name: "momo_related",
+      label: "Explore Momo Graph",
       description:
-        "Create a recurring scheduled task (daily brief, weekly summary, etc.). " +
-        "Momo will generate AI content on the schedule and deliver via email, Slack, or in-app.",
+        "Explore the team memory graph. Starting from a decision, person, project or entity, walk N hops and " +
+        "return connected nodes with their relationships (INVOLVES, RELATES_TO, SAME_THREAD, MENTIONS). " +
+        "Use for structured questions like \"who has been involved in the AWS migration?\" or " +
+        "\"what else is Jane working on?\" instead of fuzzy search.",
       parameters: {
         type: "object",
         properties: {
-          name: {
+          node: {
             type: "string",
-            description: "Short name (e.g. 'Daily Summary', 'Weekly Report')",
+            description: "Starting node: a decision ID, or a person/project/entity name",
           },
-          prompt: {
+          nodeType: {
             type: "string",
-            description:
-              "What to generate each run (e.g. 'Summarize all decisions I made today')",
+            enum: GRAPH_NODE_TYPES,
+            description: "Type of the starting node (helps disambiguate names)",
           },
-          scheduledTime: {
-            type: "string",
-            description: "Time in HH:MM format (e.g. '17:00')",
+          hops: {
+            type: "number",
+            description: `How many relationships to follow (default 1, max ${MAX_GRAPH_HOPS})`,
           },
-          frequency: {
-            type: "string",
-            enum: ["daily", "weekly", "monthly"],
-            description: "How often to run",
+          edgeTypes: {
+            type: "array",
+            items: { type: "string", enum: GRAPH_EDGE_TYPES },
+            description: "Only follow these relationship types",
           },
-          dayOfWeek: {
-            type: "number",
-            description: "Day of week for weekly (0=Sun, 1=Mon, ..., 6=Sat)",
+          nodeTypes: {
+            type: "array",
+            items: { type: "string", enum: GRAPH_NODE_TYPES },
+            description: "Only return these node types (e.g. [\"person\"])",
           },
-          dayOfMonth: {
+          limit: {
             type: "number",
-            description: "Day of month for monthly (1-31)",
-          },
-          deliveryChannel: {
-            type: "string",
-            enum: ["email", "slack", "in_app"],
-            description: "How to deliver (default: in_app)",
+            description: "Max nodes (default 50, max 200)",
           },
         },
-        required: ["name", "prompt", "scheduledTime", "frequency"],
+        required: ["node"],
       },
       async execute(_toolCallId: string, params: any) {
         try {
-          const data = await momoFetch(config, "/api/ext/scheduled-tasks", {
-            method: "POST",
-            body: JSON.stringify({
-              name: params.name,
-              prompt: params.prompt,
-              scheduledTime: params.scheduledTime,
-              frequency: params.frequency,
-              dayOfWeek: params.dayOfWeek,
-              dayOfMonth: params.dayOfMonth,
-              deliveryChannel: params.deliveryChannel || "in_app",
-            }),
-          });
+          const data = await momoFetch(config, graphQuery(params));
 
-          if (!data.success) {
+          if (!data.root) {
             return {
-              content: [
-                { type: "text", text: `Failed: ${data.error}` },
-              ],
+              content: [{ type: "text", text: `No graph node found for "${params.node}".` }],
             };
           }
-
-          return {
-            content: [{ type: "text", text: data.message }],
-            details: { taskId: data.task.id, schedule: data.task.schedule },
-          };
-        } catch (err: any) {
-          return {
-            content: [
-              { type: "text", text: `Schedule failed: ${err.message}` },
-            ],
-          };
-        }
-      },
-    });
-
-    // =========================================================================
-    // TOOL 6: momo_list_schedules — List scheduled tasks
-    // =========================================================================
-
-    api.registerTool({
-      name: "momo_list_schedules",
-      label: "List Momo Schedules",
-      description:
-        "List all your scheduled tasks (daily briefs, weekly reports, etc.) " +
-        "with their status, next run time, and delivery channel.",
-      parameters: {
-        type: "object",
-        properties: {},
-      },
-      async execute() {
-        try {
-          const data = await momoFetch(config, "/api/ext/scheduled-tasks");
-
-          if (!data.tasks?.length) {
+          if (!data.nodes?.length) {
             return {
-              content: [
-                { type: "text", text: "No scheduled tasks found." },
-              ],
+              content: [{ type: "text", text: `${graphNodeLabel(data.root)} has no connected nodes.` }],
             };
           }
 
-          const text = data.tasks
-            .map(
-              (t: any) =>
-                `${t.enabled ? "●" : "○"} **${t.name}**\n` +
-                `  ${t.schedule} → ${t.deliveryChannel}\n` +
-                `  Runs: ${t.runCount || 0} | Last: ${t.lastRunStatus || "never"}` +
-                (t.enabled ? "" : " (disabled)")
-            )
-            .join("\n\n");
-
+          const text = [`**Graph around ${graphNodeLabel(data.root)}**`, ...graphLines(data)].join("\n");
           return {
-            content: [
-              {
-                type: "text",
-                text: `**Scheduled Tasks** (${data.activeCount} active / ${data.count} total)\n\n${text}`,
-              },
-            ],
+            content: [{ type: "text", text }],
+            details: { nodeCount: data.nodes.length, edgeCount: data.edges?.length || 0 },
           };
         } catch (err: any) {
           return {
-            content: [
-              { type: "text", text: `List failed: ${err.message}` },
-            ],
+            content: [{ type: "text", text: `Graph lookup failed: ${err.message}` }],
           };
         }
       },
     });
 
     // =========================================================================
-    // TOOL 7: momo_cancel_schedule — Cancel a scheduled task
+    // TOOL 15: momo_cite — Resolve [m:<id>] citations to their sources
     // =========================================================================
 
+    const citeSection = (d: any): string => {
+      const lines = [`**${citation(d)} ${d.title}**`];
+      const when = d.sourceDate ? new Date(d.sourceDate).toISOString().slice(0, 10) : "unknown date";
+      const from = d.sourceAuthor || d.sourceFrom;
+      lines.push(`Source: ${sourceLabel(d.source || "unknown")}${d.sourceTitle ? ` — ${d.sourceTitle}` : ""}${from ? ` (from ${from})` : ""}, ${when}`);
+      lines.push(d.sourceUrl ? `Original: ${d.sourceUrl}` : "Original: no link recorded (captured from conversation)");
+      if (d.summary) lines.push("", d.summary);
+      const excerpt = String(d.fullContext || d.sourceExcerpt || "").trim();
+      if (excerpt) {
+        lines.push("", "Excerpt:", ...excerpt.slice(0, 1500).split("\n").map((l) => `> ${l}`));
+      }
+      return lines.join("\n");
+    };
+
     api.registerTool({
-      name: "momo_cancel_schedule",
-      label: "Cancel Momo Schedule",
+      name: "momo_cite",
+      label: "Resolve Momo Citation",
       description:
-        "Cancel a scheduled task by ID. The task is disabled, not deleted.",
+        "Resolve memory citations like [m:abc123] back to the original email, PR, message or document. " +
+        "Returns the source, date, link and the original excerpt so the user can verify a recalled memory.",
       parameters: {
         type: "object",
         properties: {
-          taskId: {
+          citation: {
             type: "string",
-            description: "The task ID to cancel",
+            description: "One or more citations (e.g. \"[m:abc123]\" or text containing several), or a bare decision ID",
           },
         },
-        required: ["taskId"],
+        required: ["citation"],
       },
       async execute(_toolCallId: string, params: any) {
-        try {
-          const data = await momoFetch(
-            config,
-            `/api/ext/scheduled-tasks/${params.taskId}`,
-            { method: "DELETE" }
-          );
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: data.message || "Task cancelled.",
-              },
-            ],
-          };
-        } catch (err: any) {
+        const ids = parseCitations(String(params.citation || "")).slice(0, 10);
+        if (!ids.length) {
           return {
-            content: [
-              { type: "text", text: `Cancel failed: ${err.message}` },
-            ],
+            content: [{ type: "text", text: `No citation found in "${params.citation}". Expected [m:<id>].` }],
           };
         }
+
+        const sections: string[] = [];
+        const resolved: Array<{ id: string; sourceUrl?: string; stale?: boolean }> = [];
+        for (const id of ids) {
+          try {
+            const data = await momoFetch(config, `/api/ext/decisions/${encodeURIComponent(id)}`);
+            if (!data.decision) {
+              sections.push(`[m:${id}] — not found`);
+              continue;
+            }
+            await cacheDecisions(config, [data.decision], api.logger);
+            sections.push(citeSection(data.decision));
+            resolved.push({ id, sourceUrl: data.decision.sourceUrl });
+          } catch (err: any) {
+            const cached = isTransientError(err) ? (await loadSearchCache(config)).get(id) : undefined;
+            if (cached) {
+              sections.push(`${citeSection(cached.decision)}\n${staleNotice(cached.cachedAt)}`);
+              resolved.push({ id, sourceUrl: cached.decision.sourceUrl, stale: true });
+            } else {
+              sections.push(`[m:${id}] — lookup failed: ${err.message}`);
+            }
+          }
+        }
+
+        return {
+          content: [{ type: "text", text: sections.join("\n\n---\n\n") }],
+          details: { resolved },
+        };
       },
     });
 
+    // =========================================================================
+    // TOOL 16: momo_capture — Pause, resume or flush capture for this conversation
+    // =========================================================================
+
+    api.registerTool(
+      (ctx: OpenClawPluginToolContext) => ({
+        name: "momo_capture",
+        label: "Momo Capture Control",
+        description:
+          "Control auto-capture for the current conversation. Use 'pause' when the user asks not to " +
+          "remember this conversation, 'resume' to capture again, 'flush' to extract decisions from " +
+          "what's buffered right now, and 'status' to check whether this conversation is captured.",
+        parameters: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["pause", "resume", "flush", "status"],
+              description: "What to do with capture for this conversation",
+            },
+          },
+          required: ["action"],
+        },
+        async execute(_toolCallId: string, params: any) {
+          const channelKey = ctx?.sessionKey ? sessionChannels.get(ctx.sessionKey) : undefined;
+          if (!channelKey) {
+            return {
+              content: [{
+                type: "text",
+                text: "Capture control failed: this conversation isn't known yet. The user can send \"/momo pause\" instead.",
+              }],
+            };
+          }
+
+          try {
+            const policy = captureChannelPolicy(config, channelKey);
+            if (params.action !== "status" && (!isCaptureEnabled(config) || !policy.allowed)) {
+              return {
+                content: [{
+                  type: "text",
+                  text: `Nothing to ${params.action} — ${await captureStatusLine(config, channelKey)}`,
+                }],
+              };
+            }
+
+            let text: string;
+            if (params.action === "pause" || params.action === "resume") {
+              await setCapturePaused(config, channelKey, params.action === "pause");
+              text =
+                params.action === "pause"
+                  ? "Capture paused for this conversation. Nothing from here on is sent to Momo until it's resumed."
+                  : "Capture resumed for this conversation.";
+            } else if (params.action === "flush") {
+              const buffered = await flushChannelNow(channelKey, config, api.logger);
+              text = buffered
+                ? `Flushed ${buffered} buffered message(s) for extraction.`
+                : "Nothing buffered for this conversation yet.";
+            } else {
+              // Buffers live in this process, so the count is only meaningful here, not in the CLI
+              const buffered = messageBuffers.get(channelKey)?.length || 0;
+              text = `${await captureStatusLine(config, channelKey)}${buffered ? `, ${buffered} buffered` : ""}`;
+            }
+
+            return {
+              content: [{ type: "text", text }],
+              details: { channel: channelKey, action: params.action },
+            };
+          } catch (err: any) {
+            return {
+              content: [{ type: "text", text: `Capture control failed: ${err.message}` }],
+            };
+          }
+        },
+      }),
+      { name: "momo_capture" }
+    );
+
+    // =========================================================================
+    // HOOK: Session tracking (before_agent_start)
+    // =========================================================================
+
+    api.on(
+      "before_agent_start",
+      async (event: any, ctx?: OpenClawPluginToolContext) => {
+        noteSessionTurn(ctx?.sessionKey || event.sessionKey || "default");
+        // Lets momo_capture find this conversation's buffer during the turn, with or without auto-recall
+        rememberSessionChannel(ctx?.sessionKey || event.sessionKey, getChannelKey(event));
+        return {};
+      },
+      { priority: 20 }
+    );
+
     // =========================================================================
     // HOOK: Auto-Recall (before_agent_start)
     // =========================================================================
 
     if (config.autoRecall) {
+      const recallGate = buildRecallGate(config, api.logger);
+
       api.on(
         "before_agent_start",
-        async (event: any) => {
-          // Extract the LAST USER MESSAGE specifically, not the full prompt
-          let userMessage = "";
+        async (event: any, ctx?: OpenClawPluginToolContext) => {
+          const messages = Array.isArray(event.messages) ? event.messages : [];
 
-          if (event.messages && Array.isArray(event.messages)) {
-            // Walk backwards to find the last user message
-            for (let i = event.messages.length - 1; i >= 0; i--) {
-              const msg = event.messages[i];
-              if (msg.role === "user") {
-                userMessage =
-                  typeof msg.content === "string"
-                    ? msg.content
-                    : Array.isArray(msg.content)
-                      ? msg.content
-                          .filter((c: any) => c.type === "text")
-                          .map((c: any) => c.text)
-                          .join(" ")
-                      : "";
-                break;
-              }
+          // Gate on the LAST USER MESSAGE specifically, not the full prompt
+          let userMessage = "";
+          for (let i = messages.length - 1; i >= 0; i--) {
+            if (messages[i].role === "user") {
+              userMessage = messageText(messages[i]);
+              break;
             }
           }
 
@@ -664,9 +5499,14 @@ const momoPlugin = {
             userMessage = event.prompt;
           }
 
-          // Skip short messages and casual chat
-          if (!userMessage || userMessage.length < 30) return {};
-          if (looksLikeCasualChat(userMessage)) return {};
+          // Skip short messages and casual chat (or wait for a trigger, in explicit mode)
+          if (!userMessage || !shouldRecall(recallGate, userMessage)) return {};
+
+          const query = buildRecallQuery(messages, config.recallWindowTurns) || userMessage.slice(0, RECALL_QUERY_MAX_CHARS);
+          const seen = recalledIds(ctx?.sessionKey || event.sessionKey || getChannelKey(event));
+
+          // Don't stall the agent turn while the API is down — recall from the local cache instead
+          if (isCircuitOpen(config)) return recallFromCache(query, seen);
 
           api.logger.info(
             `[momo] Auto-recall check: "${userMessage.slice(0, 80)}..."`
@@ -674,75 +5514,161 @@ const momoPlugin = {
 
           try {
             const qs = new URLSearchParams({
-              query: userMessage.slice(0, 500),
-              maxTokens: "2000",
+              query,
+              maxTokens: String(config.recallMaxTokens),
+              includeDecisions: "true",
             });
-
             const data = await momoFetch(
               config,
-              `/api/ext/context?${qs.toString()}`
+              `/api/ext/context?${qs.toString()}`,
+              { timeoutMs: config.recallTimeoutMs, retries: 0 }
             );
+            const decisions: any[] = data.decisions || [];
+            await cacheDecisions(config, decisions, api.logger);
 
-            if (data.context && data.decisionsIncluded > 0) {
-              api.logger.info(
-                `[momo] Auto-recall: injecting ${data.decisionsIncluded} decision(s)`
-              );
+            // With the decisions behind the context we can dedupe, filter and cite each one;
+            // older API versions only send the prose, which is injected as is
+            const block = decisions.length
+              ? formatRecall(config, decisions, seen, config.recallMinScore)
+              : data.context && data.decisionsIncluded > 0
+                ? data.context
+                : null;
+            if (block) {
+              api.logger.info(`[momo] Auto-recall: injecting ${block.split("\n").length} line(s)`);
               return {
-                prependContext: `<momo-memory source="team-decisions">\n${data.context}\n</momo-memory>`,
+                // Prose from an older API has no IDs to cite
+                prependContext: decisions.length
+                  ? `<momo-memory source="team-decisions">\n${RECALL_CITATION_HINT}\n\n${block}\n</momo-memory>`
+                  : `<momo-memory source="team-decisions">\n${block}\n</momo-memory>`,
               };
             }
           } catch (err) {
             api.logger.warn("[momo] Auto-recall failed:", err);
+            if (isTransientError(err)) return recallFromCache(query, seen);
           }
 
           return {};
         },
         { priority: 10 }
       );
+
+      // BM25 scores aren't comparable to the API's, so recallMinScore doesn't apply here
+      const recallFromCache = async (query: string, seen: Set<string>) => {
+        if (!config.searchCache) return {};
+        try {
+          const cached = await searchCachedDecisions(config, query, RECALL_FETCH_LIMIT);
+          const block = formatRecall(config, cached.map((c) => c.decision), seen, 0);
+          if (!block) return {};
+          api.logger.info("[momo] Auto-recall: injecting cached decisions (API unreachable)");
+          const oldest = cached.map((c) => c.cachedAt).sort()[0];
+          return {
+            prependContext: `<momo-memory source="team-decisions" stale="true">\n${staleNotice(oldest)}\n${RECALL_CITATION_HINT}\n\n${block}\n</momo-memory>`,
+          };
+        } catch {
+          return {};
+        }
+      };
     }
 
     // =========================================================================
     // HOOK: Auto-Capture (agent_end, debounced)
     // =========================================================================
 
-    if (config.autoCapture) {
-      api.on("agent_end", async (event: any) => {
+    if (config.autoCapture && !isCaptureEnabled(config)) {
+      api.logger.info(
+        "[momo] Auto-capture is off while the vault is on: extraction would send conversation text in plaintext (set vaultExtraction to allow it)"
+      );
+    }
+
+    if (isCaptureEnabled(config)) {
+      const redaction = buildRedactors(config, api.logger);
+
+      api.on("agent_end", async (event: any, ctx?: OpenClawPluginToolContext) => {
         const channelKey = getChannelKey(event);
+        rememberSessionChannel(ctx?.sessionKey || event.sessionKey, channelKey);
+        // Denied channels are never buffered, journaled or sent anywhere
+        if (!captureChannelPolicy(config, channelKey).allowed) return;
+        await journalsRestored;
         const now = new Date().toISOString();
 
         // Extract messages from the event
-        const newMessages: BufferedMessage[] = [];
+        const eventMessages: BufferedMessage[] = [];
         if (event.messages) {
+          const toolResults = toolResultsOf(event.messages);
+          const occurrences = new Map<string, number>();
           for (const msg of event.messages) {
             if (msg.role === "user" || msg.role === "assistant") {
-              const content =
-                typeof msg.content === "string"
-                  ? msg.content
-                  : Array.isArray(msg.content)
-                    ? msg.content
-                        .filter((c: any) => c.type === "text")
-                        .map((c: any) => c.text)
-                        .join("\n")
-                    : "";
-
-              if (content && content.length > 5) {
-                newMessages.push({
+              const content = messageText(msg, "\n");
+              const toolCalls =
+                msg.role === "assistant" ? captureToolCalls(config, msg, toolResults, redaction) : [];
+
+              if ((content && content.length > 5) || toolCalls.length > 0) {
+                // Scrubbed before it touches the journal or the network
+                const redacted = redactText(content, redaction);
+                const idContent = redacted || toolCalls.map((call) => `${call.name}(${call.args})`).join("\n");
+                const occurrence = (occurrences.get(`${msg.role}\n${idContent}`) || 0) + 1;
+                occurrences.set(`${msg.role}\n${idContent}`, occurrence);
+                const message: BufferedMessage = {
+                  id: messageId(msg, idContent, occurrence),
                   role: msg.role as "user" | "assistant",
-                  content,
-                  timestamp: now,
-                });
+                  content: redacted,
+                  timestamp: messageTimestamp(msg) || now,
+                };
+                if (toolCalls.length > 0) message.toolCalls = toolCalls;
+                eventMessages.push(message);
               }
             }
           }
         }
 
-        if (newMessages.length === 0) return;
+        // Events can carry the full history — only messages this channel hasn't seen count
+        let newMessages: BufferedMessage[];
+        try {
+          newMessages = await takeUnseenMessages(config, channelKey, eventMessages);
+        } catch (err) {
+          api.logger.warn("[momo] Failed to read captured message IDs:", err);
+          return;
+        }
+
+        // Apply `/momo pause|resume|flush` in order: messages while paused are
+        // dropped (but stay seen, so resuming doesn't capture them), and the
+        // directives themselves are never captured
+        let flushRequested = false;
+        try {
+          const wasPaused = (await loadPausedChannels(config)).has(channelKey);
+          let paused = wasPaused;
+          newMessages = newMessages.filter((m) => {
+            const directive = captureDirective(m);
+            if (directive === "pause") paused = true;
+            else if (directive === "resume") paused = false;
+            else if (directive === "flush") flushRequested = true;
+            return !directive && !paused;
+          });
+          if (paused !== wasPaused) {
+            await setCapturePaused(config, channelKey, paused);
+            api.logger.info(`[momo] Capture ${paused ? "paused" : "resumed"} for ${channelKey}`);
+          }
+        } catch (err) {
+          api.logger.warn("[momo] Failed to update capture state:", err);
+          return;
+        }
+
+        if (newMessages.length === 0) {
+          saveSeenMessages(config, api.logger);
+          if (flushRequested) await flushChannelNow(channelKey, config, api.logger);
+          return;
+        }
 
         // Add to buffer
         if (!messageBuffers.has(channelKey)) {
           messageBuffers.set(channelKey, []);
         }
         messageBuffers.get(channelKey)!.push(...newMessages);
+        await appendToJournal(config, channelKey, newMessages).catch((err) => {
+          api.logger.warn("[momo] Failed to write capture journal:", err);
+        });
+        // Only now — a crash before this point replays nothing, so the turn must stay unseen
+        saveSeenMessages(config, api.logger);
 
         // Clear existing silence timer
         if (silenceTimers.has(channelKey)) {
@@ -751,6 +5677,11 @@ const momoPlugin = {
 
         const buffer = messageBuffers.get(channelKey)!;
 
+        if (flushRequested) {
+          await flushChannelNow(channelKey, config, api.logger);
+          return;
+        }
+
         // Force extract if buffer is large
         if (buffer.length >= MAX_BUFFER_SIZE) {
           api.logger.info(
@@ -759,11 +5690,19 @@ const momoPlugin = {
 
           // Keep last 4 messages as context overlap for next batch
           const toExtract = [...buffer];
-          messageBuffers.set(channelKey, buffer.slice(-4));
+          const overlap = buffer.slice(-4);
+          messageBuffers.set(channelKey, overlap);
 
           // Temporarily swap buffer for extraction
           const tempKey = `${channelKey}__flush`;
           messageBuffers.set(tempKey, toExtract);
+          try {
+            // Journal the batch before trimming the channel so a crash mid-extract loses nothing
+            await rewriteJournal(config, tempKey, toExtract);
+            await rewriteJournal(config, channelKey, overlap);
+          } catch (err) {
+            api.logger.warn("[momo] Failed to write capture journal:", err);
+          }
           await flushBuffer(tempKey, config, api.logger);
           return;
         }
@@ -789,22 +5728,68 @@ const momoPlugin = {
           .command("momo")
           .description("Momo team memory commands");
 
-        momo
-          .command("search <query>")
-          .description("Search team decisions")
-          .option("-l, --limit <n>", "Max results", "5")
-          .option("-s, --source <source>", "Filter by source")
+        const printSearchResult = (r: any) => {
+          console.log(`\n  ${r.title}`);
+          console.log(
+            `  ${r.id} | ${r.source} | ${r.decisionType} | ${formatDate(r.sourceDate)}` +
+              (r.status && r.status !== "decided" ? ` | ${r.status}` : "")
+          );
+          console.log(`  ${r.summary}`);
+          if (r.involvedPersons?.length) {
+            console.log(
+              `  People: ${r.involvedPersons.map((p: any) => p.name).join(", ")}`
+            );
+          }
+        };
+
+        // Filter flags shared by search and export
+        const withSearchFilters = (cmd: any) =>
+          cmd
+            .option("-s, --source <sources>", "Filter by source(s), comma-separated")
+            .option("--since <date>", "From date (ISO, 7d, 2w, last month, ...)")
+            .option("--until <date>", "To date (same formats as --since)")
+            .option("-t, --type <types>", "Decision type(s), comma-separated")
+            .option("--min-confidence <level>", "Confidence floor (low/medium/high)")
+            .option("--status <statuses>", "Status(es), comma-separated (e.g. decided,pending)")
+            .option("-p, --person <person>", "Involved person")
+            .option("--project <project>", "Related project")
+            .option("--entity <entity>", "Related entity");
+        const filtersFromOpts = (opts: any) => ({
+          ...opts,
+          sources: opts.source,
+          source: undefined,
+          decisionTypes: opts.type,
+        });
+
+        withSearchFilters(
+          momo
+            .command("search <query>")
+            .description("Search team decisions")
+            .option("-l, --limit <n>", "Max results", "5")
+        )
+          .option("--sort <mode>", "relevance or recency", "relevance")
+          .option("--cursor <cursor>", "Start from this page cursor")
+          .option("--all", "Fetch every page")
           .action(async (query: string, opts: any) => {
+            const filters = filtersFromOpts(opts);
             try {
-              const qs = new URLSearchParams({
-                query,
-                limit: opts.limit,
-              });
-              if (opts.source) qs.set("source", opts.source);
+              if (opts.all) {
+                let total = 0;
+                const pageSize = Math.max(Number(opts.limit), 20);
+                for await (const results of searchPages(config, query, pageSize, filters, opts.cursor)) {
+                  for (const r of results) printSearchResult(r);
+                  total += results.length;
+                }
+                console.log(total ? `\n  ${total} result(s)` : "No results found.");
+                return;
+              }
 
-              const data = await momoFetch(
+              const { data, stale, cachedAt } = await searchWithFallback(
                 config,
-                `/api/ext/search?${qs.toString()}`
+                query,
+                Number(opts.limit),
+                filters,
+                { cursor: opts.cursor }
               );
 
               if (!data.results?.length) {
@@ -812,61 +5797,405 @@ const momoPlugin = {
                 return;
               }
 
-              for (const r of data.results) {
-                console.log(
-                  `\n  ${r.title}`
-                );
-                console.log(
-                  `  ${r.source} | ${r.decisionType} | ${formatDate(r.sourceDate)}`
-                );
-                console.log(`  ${r.summary}`);
-                if (r.involvedPersons?.length) {
-                  console.log(
-                    `  People: ${r.involvedPersons.map((p: any) => p.name).join(", ")}`
-                  );
-                }
+              // The CLI exits before a deferred cache save would run
+              await flushSearchCache(config);
+
+              if (stale) console.log(`\n  ${staleNotice(cachedAt)}`);
+              for (const r of data.results) printSearchResult(r);
+              if (stale) {
+                console.log(`\n  ${data.results.length} cached result(s)`);
+                return;
               }
               console.log(
                 `\n  ${data.results.length} result(s) in ${data.stats?.searchTimeMs || "?"}ms`
               );
+              const next = nextPageCursor(data, opts.cursor, data.results.length);
+              if (next) console.log(`  Next page: --cursor ${next} (or --all)`);
             } catch (err: any) {
               console.error("Search failed:", err.message);
             }
           });
 
+        withSearchFilters(
+          momo
+            .command("export [query]")
+            .description("Export decisions as JSONL, CSV or a Markdown digest")
+            .option("-f, --format <format>", "jsonl, csv or md", "jsonl")
+            .option("-o, --output <file>", "Write to a file instead of stdout")
+            .option("-g, --group-by <field>", "Markdown grouping: project or source", "project")
+        )
+          .option("--sort <mode>", "relevance or recency", "recency")
+          .action(async (query: string | undefined, opts: any) => {
+            const format = String(opts.format).toLowerCase();
+            if (!EXPORT_FORMATS.includes(format)) {
+              console.error(`Unknown format "${opts.format}" (use ${EXPORT_FORMATS.join(", ")})`);
+              return;
+            }
+            if (format === "md" && !["project", "source"].includes(opts.groupBy)) {
+              console.error(`Unknown --group-by "${opts.groupBy}" (use project or source)`);
+              return;
+            }
+
+            let file: Awaited<ReturnType<typeof fs.open>> | null = null;
+            const write = async (text: string) => {
+              if (file) await file.write(text);
+              else if (!process.stdout.write(text)) await once(process.stdout, "drain");
+            };
+
+            let count = 0;
+            try {
+              if (opts.output) file = await fs.open(path.resolve(opts.output), "w");
+              // Markdown groups need the whole set; the line formats stream page by page
+              const collected: any[] = [];
+              if (format === "csv") await write(EXPORT_CSV_COLUMNS.join(",") + "\n");
+              for await (const results of decisionRecords(config, query || "*", filtersFromOpts(opts))) {
+                for (const d of results) {
+                  if (format === "jsonl") await write(JSON.stringify(d) + "\n");
+                  else if (format === "csv") await write(exportCsvRow(d) + "\n");
+                  else collected.push(d);
+                }
+                count += results.length;
+              }
+              if (format === "md") {
+                await write(exportMarkdown(collected, opts.groupBy, query ? `Decisions: ${query}` : "Decisions"));
+              }
+              if (file) console.error(`Exported ${count} decision(s) to ${opts.output}`);
+            } catch (err: any) {
+              console.error(`Export failed after ${count} decision(s):`, err.message);
+            } finally {
+              await file?.close();
+            }
+          });
+
+        momo
+          .command("import <path>")
+          .description("Import decisions from markdown (memory.md, ADRs), JSONL or CSV")
+          .option("-f, --format <format>", "md, jsonl or csv (default: by file extension)")
+          .option("--dry-run", "Preview the parsed decisions without storing")
+          .option("-b, --batch-size <n>", "Decisions per store request", "25")
+          .option("--no-dedupe", "Skip the check against existing memory")
+          .option("--progress <file>", "Progress file (default: in the data dir)")
+          .option("--restart", "Ignore earlier progress and start over")
+          .action(async (target: string, opts: any) => {
+            const resolved = path.resolve(target);
+            const records: ImportRecord[] = [];
+            const seen = new Set<string>();
+            try {
+              for (const file of await collectImportFiles(resolved)) {
+                const format = opts.format || IMPORT_EXTENSIONS[path.extname(file).toLowerCase()];
+                if (!["md", "jsonl", "csv"].includes(format)) {
+                  console.error(`  Skipping ${file}: unknown format (use --format md|jsonl|csv)`);
+                  continue;
+                }
+                try {
+                  for (const record of parseImportFile(await fs.readFile(file, "utf8"), file, format)) {
+                    if (seen.has(record.key)) continue;
+                    seen.add(record.key);
+                    records.push(record);
+                  }
+                } catch (err: any) {
+                  console.error(`  Skipping ${file}: ${err.message}`);
+                }
+              }
+            } catch (err: any) {
+              console.error("Import failed:", err.message);
+              return;
+            }
+
+            const progressFile = opts.progress ? path.resolve(opts.progress) : importProgressFile(config, resolved);
+            // A dry run reads the progress file too (it never writes it), so its preview matches the real run
+            const progress = opts.restart ? newImportProgress(resolved) : await loadImportProgress(progressFile, resolved);
+            const done = new Set(progress.done);
+            const todo = records.filter((r) => !done.has(r.key));
+
+            console.log(
+              `\n  Parsed ${records.length} decision(s)` +
+                (records.length > todo.length ? `, ${records.length - todo.length} already imported` : "") +
+                (opts.dryRun ? " (dry run)" : "") +
+                "\n"
+            );
+            if (!todo.length) return;
+
+            if (opts.dryRun) {
+              let duplicates = 0;
+              for (const r of todo) {
+                let existing: string | null = null;
+                if (opts.dedupe) {
+                  try {
+                    existing = await findExistingDecision(config, r);
+                  } catch {
+                    // Preview without the duplicate check when the API is down
+                  }
+                }
+                if (existing) duplicates++;
+                const meta = [
+                  r.sourceDate?.slice(0, 10) || "undated",
+                  r.decisionType,
+                  r.status,
+                  r.involvedPersons.length ? r.involvedPersons.map((p) => p.name).join(", ") : "",
+                ].filter(Boolean).join(" · ");
+                console.log(`  ${existing ? "=" : "+"} ${r.title}`);
+                console.log(`    ${meta} — ${path.relative(process.cwd(), r.file)}`);
+                if (existing) console.log(`    already in memory as ${existing}`);
+              }
+              console.log(`\n  ${todo.length - duplicates} to store, ${duplicates} duplicate(s)\n`);
+              return;
+            }
+
+            const batchSize = Math.max(1, Number(opts.batchSize) || 25);
+            try {
+              for (let i = 0; i < todo.length; i += batchSize) {
+                const batch = todo.slice(i, i + batchSize);
+                const fresh: ImportRecord[] = [];
+                for (const r of batch) {
+                  if (opts.dedupe && (await findExistingDecision(config, r))) {
+                    progress.duplicates++;
+                    progress.done.push(r.key);
+                  } else {
+                    fresh.push(r);
+                  }
+                }
+                if (fresh.length) {
+                  const decisions = await Promise.all(
+                    fresh.map(({ key: _key, file: _file, ...d }) =>
+                      sealDecision(config, { ...d, source: "openclaw" })
+                    )
+                  );
+                  // Keyed by the records in the batch, so a retry — or a re-run after a crash
+                  // between the store and the progress save — can't store them twice
+                  const batchKey = createHash("sha256")
+                    .update(fresh.map((r) => r.key).sort().join("\n"))
+                    .digest("hex")
+                    .slice(0, 32);
+                  const data = await momoFetch(config, "/api/ext/store", {
+                    method: "POST",
+                    headers: { "Idempotency-Key": `import-${batchKey}` },
+                    body: JSON.stringify({ decisions }),
+                  });
+                  progress.stored += data.stored ?? fresh.length;
+                  progress.done.push(...fresh.map((r) => r.key));
+                }
+                await saveImportProgress(progressFile, progress);
+                console.log(`  ${Math.min(i + batchSize, todo.length)}/${todo.length}`);
+              }
+            } catch (err: any) {
+              await saveImportProgress(progressFile, progress).catch(() => {});
+              console.error(`\n  Import stopped: ${err.message}`);
+              console.error(`  ${progress.stored} stored so far — re-run the same command to resume.\n`);
+              return;
+            }
+
+            console.log(
+              `\n  Imported ${progress.stored} decision(s), skipped ${progress.duplicates} duplicate(s)\n` +
+                `  Progress: ${progressFile}\n`
+            );
+          });
+
+        momo
+          .command("sync")
+          .description("Sync decisions with the local memory file (memorySyncFile)")
+          .action(async () => {
+            if (!config.memorySyncFile) {
+              console.log("\n  Memory sync is off — set memorySyncFile in the plugin config.\n");
+              return;
+            }
+            try {
+              const r = await syncMemoryFile(config, api.logger);
+              console.log(`\n  Synced ${config.memorySyncFile}`);
+              console.log(
+                `  Pulled ${r.pulled} new, refreshed ${r.updatedLocal}, pushed ${r.pushed} edit(s), stored ${r.stored} new entr${r.stored === 1 ? "y" : "ies"}`
+              );
+              if (r.deferred) {
+                console.log("  The file changed during sync and was left as is — sync again to merge it");
+              } else if (r.conflicts) {
+                console.log(`  ${r.conflicts} conflict(s) — resolve the <<<<<<< blocks in the file, then sync again`);
+              }
+              console.log();
+            } catch (err: any) {
+              console.error("Sync failed:", err.message);
+            }
+          });
+
         momo
           .command("summary [period]")
           .description("Team activity summary (today/week/month)")
-          .action(async (period: string = "week") => {
+          .option("-l, --limit <n>", "Decisions per source", "3")
+          .option("--cursor <cursor>", "Page cursor")
+          .action(async (period: string = "week", opts: any = {}) => {
             try {
-              const qs = new URLSearchParams({ period });
-              const data = await momoFetch(
-                config,
-                `/api/ext/summary?${qs.toString()}`
-              );
+              const limit = Number(opts.limit || 3);
+              const { data, page } = await fetchSummaryPage(config, period, limit, opts.cursor);
 
               console.log(
                 `\n  Team Activity (${data.period}) — ${data.totalDecisions} decisions\n`
               );
+              if (page.repeated) {
+                console.log("  The server returned the first page again — it doesn't support paging summaries.\n");
+              }
 
               for (const [source, info] of Object.entries(
                 data.bySource || {}
               ) as any) {
+                const decisions = page.decisions(info);
+                if (opts.cursor && !decisions.length) continue;
                 console.log(
                   `  ${source.toUpperCase()} (${info.count})`
                 );
-                for (const d of info.decisions.slice(0, 3)) {
+                for (const d of decisions) {
                   console.log(`    - ${d.title}`);
                 }
-                if (info.count > 3)
-                  console.log(`    ... +${info.count - 3} more`);
+                const remaining = page.remaining(info, decisions.length);
+                if (remaining > 0) console.log(`    ... +${remaining} more`);
                 console.log();
               }
+              if (page.nextCursor) console.log(`  Next page: --cursor ${page.nextCursor}\n`);
             } catch (err: any) {
               console.error("Summary failed:", err.message);
             }
           });
 
+        momo
+          .command("show <id>")
+          .description("Show a decision with full detail and provenance (accepts [m:<id>] citations)")
+          .action(async (ref: string) => {
+            const id = parseCitations(ref)[0] || ref;
+            try {
+              const data = await momoFetch(
+                config,
+                `/api/ext/decisions/${encodeURIComponent(id)}`
+              );
+              if (!data.decision) {
+                console.log(`\n  Decision ${id} not found.\n`);
+                return;
+              }
+              console.log(`\n  ${data.decision.title}`);
+              for (const line of decisionDetailLines(data.decision)) {
+                console.log(line ? `  ${line}` : "");
+              }
+              console.log();
+            } catch (err: any) {
+              console.error("Show failed:", err.message);
+            }
+          });
+
+        momo
+          .command("graph <node>")
+          .description("Explore people, entities and projects connected to a node")
+          .option("-t, --type <nodeType>", `Starting node type (${GRAPH_NODE_TYPES.join("/")})`)
+          .option("-n, --hops <n>", `Hops to follow (max ${MAX_GRAPH_HOPS})`, "1")
+          .option("-e, --edges <types>", "Comma-separated relationship types to follow")
+          .option("-o, --only <types>", "Comma-separated node types to return")
+          .action(async (node: string, opts: any) => {
+            try {
+              const data = await momoFetch(
+                config,
+                graphQuery({
+                  node,
+                  nodeType: opts.type,
+                  hops: Number(opts.hops),
+                  edgeTypes: opts.edges?.split(","),
+                  nodeTypes: opts.only?.split(","),
+                })
+              );
+
+              if (!data.root) {
+                console.log(`\n  No graph node found for "${node}".\n`);
+                return;
+              }
+
+              console.log(`\n  ${graphNodeLabel(data.root)}\n`);
+              for (const line of graphLines(data)) {
+                console.log(line ? `  ${line}` : "");
+              }
+              console.log();
+            } catch (err: any) {
+              console.error("Graph lookup failed:", err.message);
+            }
+          });
+
+        const decision = momo
+          .command("decision")
+          .description("Update, reverse or supersede an existing decision");
+
+        decision
+          .command("update <id>")
+          .description("Update fields on a decision")
+          .option("--title <title>", "New title")
+          .option("--summary <summary>", "New summary")
+          .option("--rationale <rationale>", "New rationale")
+          .option("--type <decisionType>", "New decision type")
+          .option("--confidence <level>", "high/medium/low")
+          .option("--status <status>", "decided/pending")
+          .action(async (id: string, opts: any) => {
+            const updates = pickDecisionFields({ ...opts, decisionType: opts.type });
+            if (Object.keys(updates).length === 0) {
+              console.error("Nothing to update — pass at least one field option.");
+              return;
+            }
+            try {
+              const result = await sendLifecycleWrite(config, await updateDecisionWrite(config, id, updates));
+              console.log(
+                result.queued
+                  ? `\n  Momo unreachable — update queued in outbox.\n`
+                  : `\n  Updated ${id} (${Object.keys(updates).join(", ")})\n`
+              );
+            } catch (err: any) {
+              console.error("Update failed:", err.message);
+            }
+          });
+
+        decision
+          .command("reverse <id>")
+          .description("Mark a decision reversed (or revoked with --revoke)")
+          .option("-r, --reason <reason>", "Why it was reversed")
+          .option("--revoke", "Mark revoked instead of reversed")
+          .action(async (id: string, opts: any) => {
+            const status = opts.revoke ? "revoked" : "reversed";
+            try {
+              const result = await sendLifecycleWrite(config, reverseDecisionWrite(id, status, opts.reason));
+              console.log(
+                result.queued
+                  ? `\n  Momo unreachable — ${status} queued in outbox.\n`
+                  : `\n  Marked ${id} as ${status}\n`
+              );
+            } catch (err: any) {
+              console.error("Reverse failed:", err.message);
+            }
+          });
+
+        decision
+          .command("supersede <id> [newId]")
+          .description("Link newId (or a new decision from --title/--summary) as replacing id")
+          .option("--title <title>", "Title of the new decision")
+          .option("--summary <summary>", "Summary of the new decision")
+          .option("--rationale <rationale>", "Rationale for the new decision")
+          .option("--type <decisionType>", "Type of the new decision", "direction")
+          .action(async (id: string, newId: string | undefined, opts: any) => {
+            if (!newId && !(opts.title && opts.summary)) {
+              console.error("Pass a newId, or --title and --summary for a new decision.");
+              return;
+            }
+            try {
+              const result = await sendLifecycleWrite(
+                config,
+                await supersedeDecisionWrite(
+                  config,
+                  id,
+                  newId
+                    ? { supersededBy: newId }
+                    : { decision: { confidence: "medium", ...pickDecisionFields({ ...opts, decisionType: opts.type }) } }
+                )
+              );
+              console.log(
+                result.queued
+                  ? `\n  Momo unreachable — supersede queued in outbox.\n`
+                  : `\n  ${id} superseded by ${newId || result.data?.decision?.id || result.data?.id || `"${opts.title}"`}\n`
+              );
+            } catch (err: any) {
+              console.error("Supersede failed:", err.message);
+            }
+          });
+
         momo
           .command("schedules")
           .description("List scheduled tasks")
@@ -900,26 +6229,42 @@ const momoPlugin = {
 
         momo
           .command("tools")
-          .description("List available integration tools")
-          .action(async () => {
+          .description("List integration tools and whether toolPolicy exposes them")
+          .option("-a, --agent <id>", "Evaluate per-agent policy overrides")
+          .option("-r, --refresh", "Update the cached capabilities (also used when the gateway starts offline)")
+          .action(async (opts: any) => {
             try {
               const data = await momoFetch(config, "/api/ext/capabilities");
 
+              // This runs in the CLI process — the gateway notices the rewritten cache within seconds
+              if (opts.refresh && data.success) {
+                await saveCachedCapabilities(config, data);
+                console.log("\n  Cached capabilities updated");
+              }
+
               if (!data.integrations?.length) {
                 console.log("\n  No integrations connected.");
                 console.log("  Connect apps at app.usemomo.com → Settings → Integrations\n");
                 return;
               }
 
+              const decisions = new Map(
+                data.tools.map((t: any) => [t.name, evaluateToolPolicy(config.toolPolicy, t, opts.agent)])
+              ) as Map<string, { allowed: boolean; reason: string }>;
+              const enabledCount = [...decisions.values()].filter((d) => d.allowed).length;
+
               console.log(
                 `\n  Connected: ${data.integrations.join(", ")}`
               );
-              console.log(`  Available tools: ${data.toolCount}\n`);
+              console.log(
+                `  Available tools: ${data.toolCount} (${enabledCount} enabled, ${data.toolCount - enabledCount} filtered` +
+                  (opts.agent ? ` for agent "${opts.agent}")\n` : ")\n")
+              );
 
-              // Group tools by prefix
+              // Group tools by integration
               const grouped: Record<string, any[]> = {};
               for (const t of data.tools) {
-                const prefix = t.name.split("_")[0];
+                const prefix = toolIntegration(t);
                 if (!grouped[prefix]) grouped[prefix] = [];
                 grouped[prefix].push(t);
               }
@@ -927,7 +6272,11 @@ const momoPlugin = {
               for (const [prefix, tools] of Object.entries(grouped)) {
                 console.log(`  ${prefix.toUpperCase()} (${tools.length})`);
                 for (const t of tools) {
-                  console.log(`    ${t.name}`);
+                  const decision = decisions.get(t.name)!;
+                  console.log(
+                    `    ${decision.allowed ? "✓" : "✕"} ${t.name}${isWriteTool(t) ? "  (write)" : ""}` +
+                      (decision.reason !== "no policy" ? `  — ${decision.reason}` : "")
+                  );
                   console.log(`      ${t.description.slice(0, 80)}${t.description.length > 80 ? "..." : ""}`);
                 }
                 console.log();
@@ -937,6 +6286,108 @@ const momoPlugin = {
             }
           });
 
+        momo
+          .command("vault-rekey")
+          .description("Re-encrypt memories sealed with a previous passphrase using the current one")
+          .option("--dry-run", "Only count what would be re-encrypted")
+          .action(async (opts: any) => {
+            if (!isVaultEnabled(config)) {
+              console.error("The vault is off (set vaultPassphrase first)");
+              return;
+            }
+
+            const counts = { checked: 0, rekeyed: 0, current: 0, unreadable: 0 };
+            try {
+              // Fetched still sealed, so each field's key can be checked
+              for await (const records of decisionRecords(config, "*", {}, { sealed: true })) {
+                for (const d of records) {
+                  counts.checked++;
+                  let fields: Record<string, any> | null;
+                  try {
+                    fields = await staleVaultFields(config, d);
+                  } catch (err: any) {
+                    counts.unreadable++;
+                    console.error(`  ${d.id}: ${err.message}`);
+                    continue;
+                  }
+                  if (!fields) {
+                    counts.current++;
+                    continue;
+                  }
+                  if (!opts.dryRun) {
+                    const write = await updateDecisionWrite(config, d.id, fields);
+                    await momoFetch(config, write.path, { method: write.method, body: JSON.stringify(write.body) });
+                  }
+                  counts.rekeyed++;
+                }
+              }
+            } catch (err: any) {
+              console.error(`Rekey stopped after ${counts.checked} decision(s):`, err.message);
+            }
+
+            console.log(
+              `\n  Checked ${counts.checked}: ${counts.rekeyed} ${opts.dryRun ? "to re-encrypt" : "re-encrypted"}, ` +
+                `${counts.current} already current, ${counts.unreadable} unreadable\n`
+            );
+          });
+
+        momo
+          .command("outbox [action] [id]")
+          .description("List, retry or purge queued writes (list/retry/purge)")
+          .action(async (action: string = "list", id?: string) => {
+            try {
+              const matches = (item: OutboxItem) => !id || item.id.startsWith(id);
+
+              if (action === "purge") {
+                const purged = await updateOutbox(config, (items) => {
+                  const kept = items.filter((item) => !matches(item));
+                  const count = items.length - kept.length;
+                  items.splice(0, items.length, ...kept);
+                  return count;
+                });
+                console.log(`\n  Purged ${purged} item(s) from the outbox.\n`);
+                return;
+              }
+
+              if (action === "retry") {
+                await updateOutbox(config, (items) => {
+                  for (const item of items) {
+                    if (matches(item)) item.status = "pending";
+                  }
+                });
+                const result = await drainOutbox(config, api.logger);
+                console.log(
+                  `\n  Delivered ${result.delivered}, rejected ${result.failed}, ${result.remaining} remaining.\n`
+                );
+                return;
+              }
+
+              if (action !== "list") {
+                console.error(`Unknown outbox action "${action}" (use list, retry or purge)`);
+                return;
+              }
+
+              const items = await loadOutbox(config);
+              if (!items.length) {
+                console.log("\n  Outbox is empty.\n");
+                return;
+              }
+
+              console.log(`\n  Outbox (${items.length} queued)\n`);
+              for (const item of items) {
+                const status = item.status === "pending" ? "●" : "✕";
+                console.log(`  ${status} ${item.id.slice(0, 8)}  ${item.kind}  ${item.label}`);
+                console.log(
+                  `    Queued ${formatDate(item.createdAt)} | Attempts: ${item.attempts}` +
+                    (item.lastError ? ` | Last error: ${item.lastError}` : "")
+                );
+              }
+              console.log();
+            } catch (err: any) {
+              console.error("Outbox failed:", err.message);
+            }
+          });
+
         momo
           .command("status")
           .description("Check Momo connection and memory stats")
@@ -948,8 +6399,32 @@ const momoPlugin = {
                 `  Auto-Recall: ${config.autoRecall ? "on" : "off"}`
               );
               console.log(
-                `  Auto-Capture: ${config.autoCapture ? "on" : "off"}`
+                `  Auto-Capture: ${isCaptureEnabled(config) ? "on" : config.autoCapture ? "off (vault on, vaultExtraction not set)" : "off"}`
+              );
+              console.log(
+                `  Vault: ${isVaultEnabled(config) ? `on (AES-256-GCM, ${config.vaultPreviousPassphrases.length} previous passphrase(s))` : "off"}`
               );
+              if (circuit.open) {
+                // The breaker lives in each process — this is the CLI's view, not the gateway's
+                console.log(
+                  `  Circuit breaker (this CLI process): ${isCircuitOpen(config) ? "open" : "half-open"} (${circuit.consecutiveFailures} consecutive failure(s))`
+                );
+              }
+
+              if (config.memorySyncFile) {
+                const sync = await loadSyncState(config);
+                console.log(
+                  `  Memory sync: ${config.memorySyncFile} (last ${sync.lastSyncAt ? formatDate(sync.lastSyncAt) : "never"})`
+                );
+              }
+
+              // Shown before the connection check — it matters most when the API is down
+              const outbox = await loadOutbox(config);
+              if (outbox.length > 0) {
+                console.log(
+                  `  Outbox: ${outbox.length} queued write(s) (\`openclaw momo outbox\`)`
+                );
+              }
 
               // Try fetching insights to verify connection
               const data = await momoFetch(config, "/api/ext/insights");
@@ -974,6 +6449,26 @@ const momoPlugin = {
                 );
               }
 
+              // Per-channel capture state: every channel captured or paused so far
+              const channels = new Set([
+                ...(await loadSeenMessages(config)).keys(),
+                // The gateway may have paused channels since this process loaded the file
+                ...(await loadPausedChannels(config, { reload: true })).keys(),
+              ]);
+              if (config.captureChannelAllow.length || config.captureChannelDeny.length) {
+                console.log(
+                  `  Capture rules: allow ${config.captureChannelAllow.join(", ") || "all"}; deny ${config.captureChannelDeny.join(", ") || "none"}`
+                );
+              }
+              if (channels.size > 0) {
+                console.log("  Channels:");
+                const keys = [...channels].filter((key) => !key.endsWith("__flush"));
+                for (const key of keys.slice(-20)) {
+                  console.log(`    ${await captureStatusLine(config, key)}`);
+                }
+                if (keys.length > 20) console.log(`    ... ${keys.length - 20} more`);
+              }
+
               console.log();
             } catch (err: any) {
               console.log(`  Connection: FAILED (${err.message})`);
@@ -989,80 +6484,76 @@ const momoPlugin = {
 
     // Fetch capabilities and register integration tools (Gmail, Slack, Notion, etc.)
     // Awaited so tools are registered before register() returns (OpenClaw compiles tool list at that point).
-    try {
-      const caps = await momoFetch(config, "/api/ext/capabilities");
-      if (caps.success && caps.tools?.length) {
-        // Skip tools we already registered above (momo_* tools)
-        const momoToolNames = new Set([
-          "momo_search", "momo_store", "momo_context", "momo_summary",
-          "momo_schedule", "momo_list_schedules", "momo_cancel_schedule",
-        ]);
-
-        let registered = 0;
-        for (const tool of caps.tools) {
-          if (momoToolNames.has(tool.name)) continue;
-
-          const parameters = tool.parameters || { type: "object", properties: {} };
-
-          api.registerTool({
-            name: tool.name,
-            label: toolNameToLabel(tool.name),
-            description: tool.description,
-            parameters,
-            async execute(_toolCallId: string, params: any) {
-              try {
-                const data = await momoFetch(config, "/api/ext/tools/execute", {
-                  method: "POST",
-                  body: JSON.stringify({ tool: tool.name, params }),
-                });
-
-                if (!data.success) {
-                  return {
-                    content: [{ type: "text", text: `Failed: ${data.error}` }],
-                  };
-                }
-
-                const resultText = typeof data.result === "string"
-                  ? data.result
-                  : JSON.stringify(data.result, null, 2);
-
-                return {
-                  content: [{ type: "text", text: resultText }],
-                };
-              } catch (err: any) {
-                return {
-                  content: [{ type: "text", text: `${tool.name} failed: ${err.message}` }],
-                };
-              }
-            },
-          });
-          registered++;
-        }
-
-        if (registered > 0) {
-          api.logger.info(
-            `[momo] Registered ${registered} integration tool(s) (${caps.integrations.join(", ")})`
-          );
-        }
-      } else {
-        api.logger.info(
-          `[momo] No integration tools available (integrations: ${caps.integrations?.join(", ") || "none"})`
-        );
-      }
-    } catch (err: any) {
-      api.logger.warn("[momo] Failed to load integration tools:", err.message);
-    }
+    // Falls back to the last cached capabilities if the API is unreachable at startup.
+    await refreshIntegrationTools(api, config, { startup: true });
+    api.registerTool(
+      (ctx: OpenClawPluginToolContext) => integrationDispatcher(config, ctx),
+      { name: INTEGRATION_DISPATCHER }
+    );
 
     // =========================================================================
-    // SERVICE (cleanup on shutdown)
+    // SERVICE (outbox drainer, tool refresh, cleanup on shutdown)
     // =========================================================================
 
+    let outboxTimer: ReturnType<typeof setInterval> | undefined;
+    let capabilitiesTimer: ReturnType<typeof setInterval> | undefined;
+    let capabilitiesCacheTimer: ReturnType<typeof setInterval> | undefined;
+    let memorySyncTimer: ReturnType<typeof setInterval> | undefined;
+
     api.registerService({
       id: "momo-memory",
       start: () => {
+        // Background drainer: retry queued writes once connectivity returns
+        if (config.outboxDrainIntervalMs > 0) {
+          outboxTimer = setInterval(() => {
+            drainOutbox(config, api.logger).catch((err) => {
+              api.logger.warn("[momo] Outbox drain failed:", err);
+            });
+          }, config.outboxDrainIntervalMs);
+          outboxTimer.unref?.();
+        }
+        // Pick up integrations connected/disconnected in the Momo web app mid-session
+        if (config.capabilitiesRefreshMs > 0) {
+          capabilitiesTimer = setInterval(() => {
+            refreshIntegrationTools(api, config).catch((err) => {
+              api.logger.warn("[momo] Integration tool refresh failed:", err);
+            });
+          }, config.capabilitiesRefreshMs);
+          capabilitiesTimer.unref?.();
+        }
+        // Pick up `openclaw momo tools --refresh` from the CLI without waiting for the next poll
+        capabilitiesCacheTimer = setInterval(() => {
+          syncChangedCapabilitiesCache(api, config).catch((err) => {
+            api.logger.warn("[momo] Integration tool refresh from cache failed:", err);
+          });
+        }, CAPABILITIES_CACHE_CHECK_MS);
+        capabilitiesCacheTimer.unref?.();
+        // Two-way mirror with a local memory.md, for offline use and non-Momo agents
+        if (config.memorySyncFile && config.memorySyncIntervalMs > 0) {
+          let syncing = false;
+          memorySyncTimer = setInterval(() => {
+            if (syncing || isCircuitOpen(config)) return;
+            syncing = true;
+            syncMemoryFile(config, api.logger)
+              .catch((err) => api.logger.warn("[momo] Memory sync failed:", err))
+              .finally(() => (syncing = false));
+          }, config.memorySyncIntervalMs);
+          memorySyncTimer.unref?.();
+        }
         api.logger.info("[momo] Memory service started");
       },
       stop: async () => {
+        if (outboxTimer) clearInterval(outboxTimer);
+        if (capabilitiesTimer) clearInterval(capabilitiesTimer);
+        if (capabilitiesCacheTimer) clearInterval(capabilitiesCacheTimer);
+        if (memorySyncTimer) clearInterval(memorySyncTimer);
+        await flushSearchCache(config).catch((err) => {
+          api.logger.warn("[momo] Search cache save failed:", err);
+        });
+        await flushSeenMessages(config).catch((err) => {
+          api.logger.warn("[momo] Failed to save captured message IDs:", err);
+        });
+
         // Flush all buffers on shutdown
         for (const [channelKey] of messageBuffers) {
           if (silenceTimers.has(channelKey)) {
@@ -1076,7 +6567,7 @@ const momoPlugin = {
     });
 
     api.logger.info(
-      `[momo] Plugin ready (recall: ${config.autoRecall}, capture: ${config.autoCapture})`
+      `[momo] Plugin ready (recall: ${config.autoRecall}, capture: ${isCaptureEnabled(config)})`
     );
   },
 };
@@ -1089,27 +6580,19 @@ const momoPlugin = {
  * Detect casual/greeting messages that don't need memory context.
  * Returns true if the message is likely casual chat.
  */
-function looksLikeCasualChat(text: string): boolean {
+function looksLikeCasualChat(text: string, gate: RecallGate): boolean {
   const lower = text.toLowerCase().trim();
 
+  // "Hi! What did we decide about ..." is a question, not small talk
+  if (hasMemoryKeywords(lower, gate.keywords)) return false;
+
   // Greetings and small talk
-  const casualPatterns = [
-    /^(hi|hey|hello|yo|sup|hola|howdy|hiya|heya)\b/,
-    /^(good\s*(morning|afternoon|evening|night))\b/,
-    /^(thanks|thank you|thx|ty)\b/,
-    /^(ok|okay|sure|got it|sounds good|cool|nice|great|awesome|perfect)\b/,
-    /^(bye|goodbye|see you|later|gn|ttyl)\b/,
-    /^(yes|no|yep|nope|yeah|nah)\b/,
-    /^(lol|lmao|haha|heh|😂|👍|🙏)/,
-    /^(how are you|what's up|whats up|wassup)\b/,
-  ];
-
-  for (const pattern of casualPatterns) {
+  for (const pattern of gate.casual) {
     if (pattern.test(lower)) return true;
   }
 
-  // Very short messages with no question marks or keywords
-  if (lower.length < 40 && !lower.includes("?") && !hasMemoryKeywords(lower)) {
+  // Very short messages with no question marks
+  if (gateLength(lower) < gate.shortChars && !/[?？¿]/.test(lower)) {
     return true;
   }
 
@@ -1119,34 +6602,34 @@ function looksLikeCasualChat(text: string): boolean {
 /**
  * Check if text contains keywords that suggest memory/decision relevance.
  */
-function hasMemoryKeywords(text: string): boolean {
-  const keywords = [
-    "decide", "decision", "chose", "choice", "agreed", "approved",
-    "committed", "plan", "strategy", "priorit", "delegate",
-    "what did", "when did", "who said", "remember", "last time",
-    "previously", "before", "history", "recap", "summary",
-    "meeting", "discussed", "update", "status", "progress",
-    "deadline", "schedule", "budget", "roadmap", "milestone",
-  ];
-  return keywords.some((kw) => text.includes(kw));
+function hasMemoryKeywords(text: string, keywords: RegExp[]): boolean {
+  return keywords.some((kw) => kw.test(text));
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  gmail: "Gmail",
+  notion: "Notion",
+  github: "GitHub",
+  linear: "Linear",
+  slack: "Slack",
+  discord: "Discord",
+  momo: "Momo",
+  openclaw: "OpenClaw",
+};
+
+/**
+ * Display name for a source or integration ("github" → "GitHub")
+ */
+function sourceLabel(source: string): string {
+  return SOURCE_LABELS[source] || source;
 }
 
 /**
  * Convert tool name like "gmail_send_email" to a label like "Gmail: Send Email"
  */
 function toolNameToLabel(name: string): string {
-  const prefixMap: Record<string, string> = {
-    gmail: "Gmail",
-    notion: "Notion",
-    github: "GitHub",
-    linear: "Linear",
-    slack: "Slack",
-    discord: "Discord",
-    momo: "Momo",
-  };
-
   const parts = name.split("_");
-  const prefix = prefixMap[parts[0]] || parts[0];
+  const prefix = sourceLabel(parts[0]);
   const rest = parts.slice(1).map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
   return `${prefix}: ${rest}`;
 }